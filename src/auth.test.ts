@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { config } from './config';
+import { registerAuth, isLoopbackHost, assertSafeBind } from './auth';
+
+describe('inbound auth', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    registerAuth(app);
+    app.get('/', async () => ({ status: 'ok' }));
+    app.get('/api/tags', async () => ({ models: [] }));
+    app.post('/api/chat', async () => ({ done: true }));
+    app.post('/v1/chat/completions', async () => ({ object: 'chat.completion' }));
+    app.options('/v1/chat/completions', async (_request, reply) => reply.code(204).send());
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    config.GATEWAY_TOKENS = [];
+    config.GATEWAY_OPEN_DISCOVERY = true;
+  });
+
+  it('lets everything through when no gateway tokens are configured', async () => {
+    const response = await app.inject({ method: 'POST', url: '/v1/chat/completions' });
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('accepts a configured token as a bearer or x-api-key and rejects anything else', async () => {
+    config.GATEWAY_TOKENS = ['team-token', 'ci-token'];
+
+    const bearer = await app.inject({ method: 'POST', url: '/v1/chat/completions', headers: { authorization: 'Bearer ci-token' } });
+    expect(bearer.statusCode).toBe(200);
+    const apiKey = await app.inject({ method: 'POST', url: '/v1/chat/completions', headers: { 'x-api-key': 'team-token' } });
+    expect(apiKey.statusCode).toBe(200);
+
+    const wrong = await app.inject({ method: 'POST', url: '/v1/chat/completions', headers: { authorization: 'Bearer team-token-2' } });
+    expect(wrong.statusCode).toBe(401);
+    expect(wrong.json().error).toMatchObject({ type: 'invalid_request_error', code: 'invalid_api_key' });
+
+    const ollama = await app.inject({ method: 'POST', url: '/api/chat', headers: { authorization: 'Bearer ' } });
+    expect(ollama.statusCode).toBe(401);
+    expect(typeof ollama.json().error).toBe('string');
+  });
+
+  it('keeps the health check, preflights and discovery endpoints open unless told otherwise', async () => {
+    config.GATEWAY_TOKENS = ['team-token'];
+
+    expect((await app.inject({ method: 'GET', url: '/' })).statusCode).toBe(200);
+    expect((await app.inject({ method: 'OPTIONS', url: '/v1/chat/completions' })).statusCode).toBe(204);
+    expect((await app.inject({ method: 'GET', url: '/api/tags', headers: { authorization: 'Bearer' } })).statusCode).toBe(200);
+
+    config.GATEWAY_OPEN_DISCOVERY = false;
+    expect((await app.inject({ method: 'GET', url: '/api/tags?x=1' })).statusCode).toBe(401);
+  });
+
+  it('refuses non-loopback hosts without tokens unless explicitly allowed', () => {
+    expect(['127.0.0.1', '127.0.1.1', 'localhost', '::1', '[::1]', '::ffff:127.0.0.1'].every(isLoopbackHost)).toBe(true);
+    expect(['0.0.0.0', '::', '192.168.1.20', 'gateway.local'].some(isLoopbackHost)).toBe(false);
+
+    expect(() => assertSafeBind('127.0.0.1', false)).not.toThrow();
+    expect(() => assertSafeBind('0.0.0.0', false)).toThrow(/without inbound auth/);
+    expect(() => assertSafeBind('0.0.0.0', true)).not.toThrow();
+    config.GATEWAY_TOKENS = ['team-token'];
+    expect(() => assertSafeBind('0.0.0.0', false)).not.toThrow();
+  });
+});
@@ -0,0 +1,70 @@
+import { timingSafeEqual } from 'crypto';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { config } from './config';
+import { toErrorBody, GatewayError } from './errors';
+
+// Ollama discovery endpoints Copilot calls with an empty bearer; open unless GATEWAY_OPEN_DISCOVERY=false.
+const DISCOVERY_PATHS = new Set(['/api/version', '/api/tags', '/api/show']);
+
+const INVALID_TOKEN_ERROR: GatewayError = {
+  status: 401,
+  message: 'Missing or invalid gateway token. Send it as "Authorization: Bearer <token>" or "x-api-key: <token>".',
+  type: 'invalid_request_error',
+  code: 'invalid_api_key',
+  param: null,
+};
+
+/** The token a client sent: `Authorization: Bearer <token>`, else `x-api-key`. */
+export function requestToken(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization;
+  const bearer = typeof authorization === 'string' ? authorization.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() : undefined;
+  if (bearer) return bearer;
+  const apiKey = request.headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey.trim() ? apiKey.trim() : undefined;
+}
+
+function isGatewayToken(token: string): boolean {
+  const sent = Buffer.from(token);
+  // Compare against every token so the time taken does not tell which one came close.
+  return config.GATEWAY_TOKENS.reduce((matched, expected) => {
+    const wanted = Buffer.from(expected);
+    return (sent.length === wanted.length && timingSafeEqual(sent, wanted)) || matched;
+  }, false);
+}
+
+function isOpenPath(request: FastifyRequest): boolean {
+  const path = request.url.split('?')[0];
+  if (path === '/') return true;
+  return config.GATEWAY_OPEN_DISCOVERY && DISCOVERY_PATHS.has(path);
+}
+
+/**
+ * Require one of GATEWAY_TOKENS on every request when any are configured. CORS preflights,
+ * the health check and (by default) the discovery endpoints stay open.
+ */
+export function registerAuth(app: FastifyInstance<any, any, any, any>) {
+  app.addHook('onRequest', async (request, reply) => {
+    if (!config.GATEWAY_TOKENS.length || request.method === 'OPTIONS' || isOpenPath(request)) return;
+    const token = requestToken(request);
+    if (token && isGatewayToken(token)) return;
+
+    request.log.warn({ method: request.method, url: request.url, ip: request.ip }, 'Rejected request without a valid gateway token');
+    return reply.code(401).send(toErrorBody(request.url, INVALID_TOKEN_ERROR));
+  });
+}
+
+export function isLoopbackHost(host: string): boolean {
+  const bare = host.trim().toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  return bare === 'localhost' || bare === '::1' || /^(::ffff:)?127(\.\d{1,3}){3}$/.test(bare);
+}
+
+/**
+ * Refuse to listen beyond this machine while anyone who can reach the port could spend the upstream keys.
+ * The CLI passes the tokens straight from the environment, so it can refuse before the server is built.
+ */
+export function assertSafeBind(host: string, allowUnauthenticated: boolean, tokens: string[] = config.GATEWAY_TOKENS): void {
+  if (isLoopbackHost(host) || tokens.length || allowUnauthenticated) return;
+  throw new Error(
+    `Refusing to listen on ${host} without inbound auth. Set GATEWAY_TOKENS, or pass --allow-unauthenticated to expose the gateway anyway.`
+  );
+}
@@ -0,0 +1,16 @@
+import type { FastifyReply } from 'fastify';
+
+/**
+ * Returns a signal that aborts when the client goes away before the reply has been
+ * fully written (Copilot cancelling a request, a closed chat window, ...). `onCancel`
+ * runs once at that point, e.g. to log how much was generated.
+ */
+export function cancelOnDisconnect(reply: FastifyReply, onCancel: () => void): AbortSignal {
+  const controller = new AbortController();
+  reply.raw.on('close', () => {
+    if (reply.raw.writableFinished || controller.signal.aborted) return;
+    controller.abort();
+    onCancel();
+  });
+  return controller.signal;
+}
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import { ZHIPU_PROVIDER } from './config';
+import { normalizeModelName } from './zhipu';
+
+type AnyObj = Record<string, any>;
+
+export type ModelKind = 'chat' | 'embedding';
+
+export interface CatalogModel {
+  // Ollama-style entry as listed by /api/tags
+  entry: AnyObj;
+  // Model name sent upstream
+  upstream: string;
+  provider: string;
+  // Unknown for discovered models, which could be either
+  kind?: ModelKind;
+}
+
+// Load the built-in model list. An entry may name the provider serving it ("provider"); Zhipu otherwise.
+const MODELS_PATH = path.join(__dirname, 'models.json');
+export const BUILT_IN_MODELS: AnyObj[] = JSON.parse(fs.readFileSync(MODELS_PATH, 'utf8'));
+
+// Models of the PROVIDERS upstreams, by provider name (configured or discovered at startup).
+const providerModels = new Map<string, string[]>();
+const discoveredAt = new Date().toISOString();
+
+export function setProviderModels(provider: string, models: string[]): void {
+  providerModels.set(provider, models);
+}
+
+export function clearProviderModels(): void {
+  providerModels.clear();
+}
+
+// Ollama clients expect a tag on every name; upstream ids that have none get ":latest".
+function providerModelEntry(provider: string, id: string): AnyObj {
+  const name = id.includes(':') ? id : `${id}:latest`;
+  return {
+    name,
+    model: name,
+    modified_at: discoveredAt,
+    size: 0,
+    digest: '',
+    details: { parent_model: '', format: '', family: provider, families: [provider], parameter_size: '', quantization_level: '' },
+    provider,
+  };
+}
+
+/** Every model the gateway serves: models.json first, then each provider's models not listed there. */
+export function catalogModels(): CatalogModel[] {
+  const builtIn: CatalogModel[] = BUILT_IN_MODELS.map((entry) => ({
+    entry,
+    upstream: normalizeModelName(entry.model),
+    provider: entry.provider ?? ZHIPU_PROVIDER,
+    kind: entry.details?.family === 'embedding' ? 'embedding' : 'chat',
+  }));
+  const listed = new Set(builtIn.map((m) => `${m.provider}/${m.upstream}`));
+  const discovered = [...providerModels].flatMap(([provider, ids]) =>
+    ids.filter((id) => !listed.has(`${provider}/${id}`)).map((id) => ({ entry: providerModelEntry(provider, id), upstream: id, provider }))
+  );
+  return [...builtIn, ...discovered];
+}
+
+/** Look a requested name up in the catalog: by its listed name, its upstream id, or without ":latest". */
+export function findCatalogModel(name: string, kind?: ModelKind): CatalogModel | undefined {
+  const bare = name.replace(/:latest$/, '');
+  return catalogModels().find(
+    (m) => (m.entry.model === name || m.upstream === name || m.upstream === bare) && (!kind || !m.kind || m.kind === kind)
+  );
+}
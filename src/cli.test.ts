@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
+const argv = vi.hoisted(() => ({ port: 11434, host: '127.0.0.1', 'allow-unauthenticated': false }));
+
 // Mock yargs and dependencies with minimal chainable behavior used by CLI
 vi.mock('yargs/yargs', () => {
   return {
@@ -7,7 +9,7 @@ vi.mock('yargs/yargs', () => {
       option: function () { return this; },
       help: function () { return this; },
       alias: function () { return this; },
-      argv: { port: 11434, host: '127.0.0.1' },
+      argv,
     }),
   };
 });
@@ -46,4 +48,22 @@ describe('cli module', () => {
   consoleErrorSpy.mockRestore();
   mockExit.mockRestore();
   });
-});
\ No newline at end of file
+
+  it('refuses an exposed host without tokens before building the server', async () => {
+    const { buildServer } = await import('./server');
+    const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    const env = { NODE_ENV: process.env.NODE_ENV, GATEWAY_TOKENS: process.env.GATEWAY_TOKENS };
+    argv.host = '0.0.0.0';
+    process.env.NODE_ENV = 'production';
+    delete process.env.GATEWAY_TOKENS;
+    try {
+      await import('./cli');
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(1));
+      expect(buildServer).not.toHaveBeenCalled();
+    } finally {
+      argv.host = '127.0.0.1';
+      process.env.NODE_ENV = env.NODE_ENV;
+      if (env.GATEWAY_TOKENS !== undefined) process.env.GATEWAY_TOKENS = env.GATEWAY_TOKENS;
+    }
+  });
+});
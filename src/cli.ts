@@ -3,6 +3,8 @@ import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
 import { buildServer } from './server';
 import { logger } from './logger';
+import { assertSafeBind } from './auth';
+import { parseTokenList } from './config';
 
 const DEFAULT_HOST = '127.0.0.1';
 const DEFAULT_PORT = 11434;
@@ -11,9 +13,16 @@ async function main() {
   const argv = await yargs(hideBin(process.argv))
     .option('host', { type: 'string', description: `Host interface to bind (default: ${DEFAULT_HOST})`, default: DEFAULT_HOST })
     .option('port', { alias: 'p', type: 'number', description: `Port to bind (default: ${DEFAULT_PORT})`, default: DEFAULT_PORT })
+    .option('allow-unauthenticated', {
+      type: 'boolean',
+      description: 'Listen on a non-loopback host even though GATEWAY_TOKENS is not set',
+      default: false,
+    })
     .help().alias('help', 'h').argv;
 
   try {
+    // Before buildServer, which frees the port and calls the providers
+    assertSafeBind(argv.host, argv['allow-unauthenticated'], parseTokenList(process.env.GATEWAY_TOKENS));
     const app = await buildServer();
     await app.listen({ port: argv.port, host: argv.host });
   } catch (err) {
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { config, initializeConfig } from './config';
+import { config, initializeConfig, parseModelMap, parseModelRoutes, parseProviders, parseModelFallbacks, parseTokenList, parseModelRules, parseNumber } from './config';
 
 describe('config initialization', () => {
   const OLD_ENV = process.env;
@@ -125,6 +125,14 @@ describe('config initialization', () => {
     expect(process.env.OTHER_VAR).toBe('other-value');
   });
 
+  it('initializeConfig accepts a comma-separated list of keys or key variables', () => {
+    process.env.ZHIPUAI_API_KEY = 'first-key, SECOND_KEY_VAR,';
+    process.env.SECOND_KEY_VAR = 'second-key';
+    initializeConfig();
+    expect(config.ZHIPUAI_API_KEYS).toEqual(['first-key', 'second-key']);
+    expect(config.ZHIPUAI_API_KEY).toBe('first-key');
+  });
+
   it('initializeConfig handles multi-level variable resolution', () => {
     process.env.ZHIPU_API_KEY = 'VAR1';
     process.env.VAR1 = 'final-key';
@@ -132,3 +140,119 @@ describe('config initialization', () => {
     expect(config.ZHIPUAI_API_KEY).toBe('final-key');
   });
 });
+
+describe('parseNumber', () => {
+  it('keeps 0 and falls back only for empty or invalid values', () => {
+    expect(parseNumber('0', 30_000)).toBe(0);
+    expect(parseNumber(' 500 ', 30_000)).toBe(500);
+    expect(parseNumber('', 30_000)).toBe(30_000);
+    expect(parseNumber('soon', 30_000)).toBe(30_000);
+    expect(parseNumber(undefined, 30_000)).toBe(30_000);
+  });
+});
+
+describe('parseModelMap', () => {
+  it('parses model=value pairs and ignores malformed entries', () => {
+    expect(parseModelMap(' glm-4.6=think , glm-4.5-air=strip,broken,=x')).toEqual({ 'glm-4.6': 'think', 'glm-4.5-air': 'strip' });
+    expect(parseModelMap(undefined)).toEqual({});
+  });
+});
+
+describe('parseModelRoutes', () => {
+  it('parses model names and objects with default parameters, in table order', () => {
+    expect(parseModelRoutes('{"gpt-4o*": "glm-4.6", "coder:fast": {"model": "glm-4.5-air", "temperature": 0.2}}')).toEqual([
+      { pattern: 'gpt-4o*', model: 'glm-4.6', params: {} },
+      { pattern: 'coder:fast', model: 'glm-4.5-air', params: { temperature: 0.2 } },
+    ]);
+    expect(parseModelRoutes(undefined)).toEqual([]);
+  });
+
+  it('rejects malformed tables', () => {
+    expect(() => parseModelRoutes('gpt-4o=glm-4.6')).toThrow(/not valid JSON/);
+    expect(() => parseModelRoutes('["glm-4.6"]')).toThrow(/must be a JSON object/);
+    expect(() => parseModelRoutes('{"coder": {"temperature": 0.2}}')).toThrow(/'coder'/);
+  });
+
+  it('is read by initializeConfig', () => {
+    const OLD_ENV = process.env;
+    process.env = { ...OLD_ENV, ZHIPUAI_API_KEY: 'key', MODEL_ROUTES: '{"gpt-4o": "glm-4.6"}' };
+    try {
+      initializeConfig();
+      expect(config.MODEL_ROUTES).toEqual([{ pattern: 'gpt-4o', model: 'glm-4.6', params: {} }]);
+    } finally {
+      process.env = OLD_ENV;
+      config.MODEL_ROUTES = [];
+    }
+  });
+});
+
+describe('parseProviders', () => {
+  it('parses OpenAI-compatible providers and resolves keys held in other variables', () => {
+    process.env.TEST_DEEPSEEK_KEY = 'sk-deepseek';
+    try {
+      expect(
+        parseProviders('{"deepseek": {"base_url": "https://api.deepseek.com/v1/", "api_key": "TEST_DEEPSEEK_KEY", "models": ["deepseek-chat"]}, "local": {"base_url": "http://127.0.0.1:8080/v1"}}')
+      ).toEqual([
+        { name: 'deepseek', baseUrl: 'https://api.deepseek.com/v1', apiKey: 'sk-deepseek', models: ['deepseek-chat'] },
+        { name: 'local', baseUrl: 'http://127.0.0.1:8080/v1', apiKey: '' },
+      ]);
+    } finally {
+      delete process.env.TEST_DEEPSEEK_KEY;
+    }
+    expect(parseProviders(undefined)).toEqual([]);
+  });
+
+  it('rejects malformed providers', () => {
+    expect(() => parseProviders('{"local": {}}')).toThrow(/needs a "base_url"/);
+    expect(() => parseProviders('{"zhipu": {"base_url": "http://x"}}')).toThrow(/built-in 'zhipu'/);
+    expect(() => parseProviders('{"local": {"base_url": "http://x", "models": "a,b"}}')).toThrow(/"models"/);
+  });
+
+  it('requires routes to name a configured provider', () => {
+    const OLD_ENV = process.env;
+    process.env = { ...OLD_ENV, ZHIPUAI_API_KEY: 'key', MODEL_ROUTES: '{"chat": {"model": "deepseek-chat", "provider": "deepseek"}}' };
+    try {
+      expect(() => initializeConfig()).toThrow(/unknown provider 'deepseek'/);
+    } finally {
+      process.env = OLD_ENV;
+      config.MODEL_ROUTES = [];
+      config.PROVIDERS = [];
+    }
+  });
+});
+
+describe('parseModelFallbacks', () => {
+  it('parses ordered fallback chains and rejects anything else', () => {
+    expect(parseModelFallbacks('{"glm-4.6": ["glm-4.5", "glm-4.5-air"]}')).toEqual({ 'glm-4.6': ['glm-4.5', 'glm-4.5-air'] });
+    expect(parseModelFallbacks(undefined)).toEqual({});
+    expect(() => parseModelFallbacks('glm-4.6=glm-4.5')).toThrow(/not valid JSON/);
+    expect(() => parseModelFallbacks('["glm-4.5"]')).toThrow(/must be a JSON object/);
+    expect(() => parseModelFallbacks('{"glm-4.6": "glm-4.5"}')).toThrow(/'glm-4.6' must be a list/);
+  });
+});
+
+describe('parseTokenList', () => {
+  it('splits tokens and resolves ones held in other variables', () => {
+    process.env.TEST_GATEWAY_TOKEN = 'from-variable';
+    try {
+      expect(parseTokenList(' team-token , TEST_GATEWAY_TOKEN,,')).toEqual(['team-token', 'from-variable']);
+    } finally {
+      delete process.env.TEST_GATEWAY_TOKEN;
+    }
+    expect(parseTokenList(undefined)).toEqual([]);
+  });
+});
+
+describe('parseModelRules', () => {
+  it('parses rules in order and rejects unknown or mistyped conditions', () => {
+    expect(parseModelRules('[{"intent": "*commit*", "model": " glm-4.5-air "}, {"images": true, "model": "glm-4.5v"}]')).toEqual([
+      { intent: '*commit*', model: 'glm-4.5-air' },
+      { images: true, model: 'glm-4.5v' },
+    ]);
+    expect(parseModelRules(undefined)).toEqual([]);
+    expect(() => parseModelRules('{"intent": "x"}')).toThrow(/must be a JSON array/);
+    expect(() => parseModelRules('[{"intent": "x"}]')).toThrow(/entry 0 needs a "model"/);
+    expect(() => parseModelRules('[{"size": 1, "model": "glm-4.6"}]')).toThrow(/unknown condition "size"/);
+    expect(() => parseModelRules('[{"min_prompt_tokens": "10k", "model": "glm-4.6"}]')).toThrow(/must be a number/);
+  });
+});
@@ -5,18 +5,289 @@ dotenv.config();
 function resolveEnvVar(varName: string): string | undefined {
   const directValue = process.env[varName];
   if (!directValue) return undefined;
-  if (directValue.match(/^[A-Z0-9_]+$/) && process.env[directValue]) {
-    return process.env[directValue];
+  return resolveIndirection(directValue);
+}
+
+// A value that names another environment variable (e.g. "DEEPSEEK_API_KEY") stands for that variable's value.
+function resolveIndirection(value: string): string {
+  if (value.match(/^[A-Z0-9_]+$/) && process.env[value]) {
+    return process.env[value] as string;
   }
-  return directValue;
+  return value;
+}
+
+// Parse a comma-separated list, dropping blanks.
+export function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Parse a number, using `fallback` for an empty or non-numeric value (unlike `|| fallback`, 0 is kept).
+export function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = value?.trim() ? Number(value) : NaN;
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+// Parse a comma-separated list of secrets, each given directly or as the name of a variable holding it.
+export function parseTokenList(value: string | undefined): string[] {
+  return parseList(value).map(resolveIndirection);
+}
+
+// Request headers browsers may send cross-origin by default: the API's own plus Copilot's diagnostic headers.
+const DEFAULT_CORS_ALLOW_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'X-Api-Key',
+  'X-Request-Id',
+  'X-Reasoning-Mode',
+  'OpenAI-Intent',
+  'OpenAI-Organization',
+  'X-Initiator',
+  'X-Interaction-Id',
+  'X-Interaction-Type',
+  'X-GitHub-Api-Version',
+  'Copilot-Integration-Id',
+  'Editor-Version',
+  'Editor-Plugin-Version',
+  'VScode-SessionId',
+  'VScode-MachineId',
+];
+
+// Parse "model=value,model=value" settings into a lookup keyed by model name.
+export function parseModelMap(value: string | undefined): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const [model, setting] = entry.split('=').map((part) => part.trim());
+    if (model && setting) map[model] = setting;
+  }
+  return map;
+}
+
+export interface ModelRoute {
+  // Requested model name, or a pattern where "*" matches any run of characters (e.g. "gpt-4o*")
+  pattern: string;
+  // Upstream model the request is sent to
+  model: string;
+  // Provider serving `model`, when the model catalog should not decide
+  provider?: string;
+  // Request parameters applied when the client does not send them (e.g. temperature)
+  params: Record<string, any>;
+}
+
+/**
+ * Parse the MODEL_ROUTES JSON object, whose entries map a requested name or pattern onto
+ * either an upstream model name or `{model, provider?, ...defaultParams}`, e.g.
+ * `{"gpt-4o*": "glm-4.6", "coder:fast": {"model": "glm-4.5-air", "temperature": 0.2}}`.
+ */
+export function parseModelRoutes(value: string | undefined): ModelRoute[] {
+  if (!value || !value.trim()) return [];
+  let table: unknown;
+  try {
+    table = JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`MODEL_ROUTES is not valid JSON: ${error.message}`);
+  }
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    throw new Error('MODEL_ROUTES must be a JSON object mapping model names to upstream models');
+  }
+  return Object.entries(table as Record<string, unknown>).map(([pattern, target]) => {
+    if (typeof target === 'string' && target.trim()) return { pattern, model: target.trim(), params: {} };
+    if (target && typeof target === 'object' && typeof (target as any).model === 'string' && (target as any).model.trim()) {
+      const { model, provider, ...params } = target as Record<string, any>;
+      return { pattern, model: model.trim(), ...(typeof provider === 'string' ? { provider } : {}), params };
+    }
+    throw new Error(`MODEL_ROUTES entry '${pattern}' must be a model name or an object with a "model"`);
+  });
+}
+
+/** A MODEL_RULES entry: `model` is used when every condition given holds. */
+export interface ModelRule {
+  // "*" patterns for the Copilot intent, the User-Agent header and the model the client asked for
+  intent?: string;
+  user_agent?: string;
+  requested_model?: string;
+  // Bounds of the estimated prompt size
+  min_prompt_tokens?: number;
+  max_prompt_tokens?: number;
+  // Whether the request offers tools / contains images
+  tools?: boolean;
+  images?: boolean;
+  // Model to use, resolved like a requested name (so MODEL_ROUTES aliases work)
+  model: string;
+}
+
+const MODEL_RULE_CONDITIONS: Record<string, 'string' | 'number' | 'boolean'> = {
+  intent: 'string',
+  user_agent: 'string',
+  requested_model: 'string',
+  min_prompt_tokens: 'number',
+  max_prompt_tokens: 'number',
+  tools: 'boolean',
+  images: 'boolean',
+};
+
+/**
+ * Parse the MODEL_RULES JSON array, checked in order before MODEL_ROUTES, e.g.
+ * `[{"intent": "*commit*", "model": "glm-4.5-air"}, {"images": true, "model": "glm-4.5v"}]`.
+ */
+export function parseModelRules(value: string | undefined): ModelRule[] {
+  if (!value || !value.trim()) return [];
+  let rules: unknown;
+  try {
+    rules = JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`MODEL_RULES is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('MODEL_RULES must be a JSON array of rules');
+  }
+  return rules.map((rule, index) => {
+    if (!rule || typeof rule !== 'object' || typeof rule.model !== 'string' || !rule.model.trim()) {
+      throw new Error(`MODEL_RULES entry ${index} needs a "model"`);
+    }
+    for (const [key, condition] of Object.entries(rule as Record<string, unknown>)) {
+      if (key === 'model') continue;
+      const type = MODEL_RULE_CONDITIONS[key];
+      if (!type) {
+        throw new Error(`MODEL_RULES entry ${index} has unknown condition "${key}" (use ${Object.keys(MODEL_RULE_CONDITIONS).join(', ')})`);
+      }
+      if (typeof condition !== type) {
+        throw new Error(`MODEL_RULES entry ${index} condition "${key}" must be a ${type}`);
+      }
+    }
+    return { ...rule, model: rule.model.trim() } as ModelRule;
+  });
+}
+
+export interface ProviderConfig {
+  // Name models and routes refer to the provider by, e.g. "deepseek"
+  name: string;
+  // OpenAI-compatible base URL, e.g. "https://api.deepseek.com/v1"
+  baseUrl: string;
+  apiKey: string;
+  // Models it serves; when omitted they are discovered from its GET /models at startup
+  models?: string[];
+}
+
+// The built-in provider, configured through ZHIPUAI_API_KEY and ZHIPUAI_API_BASE_URL.
+export const ZHIPU_PROVIDER = 'zhipu';
+
+/**
+ * Parse the PROVIDERS JSON object of extra OpenAI-compatible upstreams, e.g.
+ * `{"deepseek": {"base_url": "https://api.deepseek.com/v1", "api_key": "DEEPSEEK_API_KEY", "models": ["deepseek-chat"]}}`.
+ * An `api_key` naming an environment variable is replaced by that variable's value.
+ */
+export function parseProviders(value: string | undefined): ProviderConfig[] {
+  if (!value || !value.trim()) return [];
+  let table: unknown;
+  try {
+    table = JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`PROVIDERS is not valid JSON: ${error.message}`);
+  }
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    throw new Error('PROVIDERS must be a JSON object mapping provider names to their settings');
+  }
+  return Object.entries(table as Record<string, any>).map(([name, settings]) => {
+    if (name === ZHIPU_PROVIDER) {
+      throw new Error(`PROVIDERS cannot redefine the built-in '${ZHIPU_PROVIDER}' provider`);
+    }
+    if (!settings || typeof settings.base_url !== 'string' || !settings.base_url.trim()) {
+      throw new Error(`PROVIDERS entry '${name}' needs a "base_url"`);
+    }
+    if (settings.models !== undefined && !(Array.isArray(settings.models) && settings.models.every((m: unknown) => typeof m === 'string'))) {
+      throw new Error(`PROVIDERS entry '${name}' has "models" that is not a list of model names`);
+    }
+    return {
+      name,
+      baseUrl: settings.base_url.trim().replace(/\/+$/, ''),
+      apiKey: typeof settings.api_key === 'string' ? resolveIndirection(settings.api_key.trim()) : '',
+      ...(settings.models ? { models: settings.models } : {}),
+    };
+  });
+}
+
+/**
+ * Parse the MODEL_FALLBACKS JSON object of ordered fallback chains, keyed by upstream model,
+ * e.g. `{"glm-4.6": ["glm-4.5", "glm-4.5-air"]}`.
+ */
+export function parseModelFallbacks(value: string | undefined): Record<string, string[]> {
+  if (!value || !value.trim()) return {};
+  let table: unknown;
+  try {
+    table = JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`MODEL_FALLBACKS is not valid JSON: ${error.message}`);
+  }
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    throw new Error('MODEL_FALLBACKS must be a JSON object mapping model names to lists of fallback models');
+  }
+  for (const [model, chain] of Object.entries(table as Record<string, unknown>)) {
+    if (!Array.isArray(chain) || !chain.every((m) => typeof m === 'string' && m.trim())) {
+      throw new Error(`MODEL_FALLBACKS entry '${model}' must be a list of model names`);
+    }
+  }
+  return table as Record<string, string[]>;
 }
 
 export const config = {
   ZHIPUAI_API_KEY: '',
+  // Every configured Zhipu key (ZHIPUAI_API_KEY is the first); calls are spread across them
+  ZHIPUAI_API_KEYS: [] as string[],
+  // Tokens clients must send to use the gateway, read from GATEWAY_TOKENS; no inbound auth when empty
+  GATEWAY_TOKENS: [] as string[],
+  // Whether /api/version, /api/tags and /api/show answer without a token (Copilot sends an empty bearer there)
+  GATEWAY_OPEN_DISCOVERY: process.env.GATEWAY_OPEN_DISCOVERY !== 'false',
+  // Browser origins allowed to call the gateway, e.g. "http://localhost:3000,https://*.example.com" ("*" for any); none by default
+  CORS_ORIGINS: parseList(process.env.CORS_ORIGINS),
+  CORS_ALLOW_HEADERS: process.env.CORS_ALLOW_HEADERS ? parseList(process.env.CORS_ALLOW_HEADERS) : DEFAULT_CORS_ALLOW_HEADERS,
+  // Let allowed origins send cookies and HTTP auth (the origin is then echoed instead of "*")
+  CORS_ALLOW_CREDENTIALS: process.env.CORS_ALLOW_CREDENTIALS === 'true',
   // Keep the base you’ve been using; change if your Zhipu account uses a different one.
   ZHIPUAI_API_BASE_URL: process.env.ZHIPUAI_API_BASE_URL || 'https://api.z.ai/api/coding/paas/v4',
-  // Default GLM model to use when the client requests an unknown model name
-  DEFAULT_ZHIPU_MODEL: (process.env.DEFAULT_ZHIPU_MODEL || 'glm-4').trim(),
+  // Aliases and patterns for requested model names, read from MODEL_ROUTES (see parseModelRoutes)
+  MODEL_ROUTES: [] as ModelRoute[],
+  // Models picked from request attributes (intent, prompt size, tools, images, User-Agent), read from MODEL_RULES
+  MODEL_RULES: [] as ModelRule[],
+  // Extra OpenAI-compatible upstreams, read from PROVIDERS (see parseProviders)
+  PROVIDERS: [] as ProviderConfig[],
+  // Models to try, in order, when a model is rate limited, out of quota or down; read from MODEL_FALLBACKS
+  MODEL_FALLBACKS: {} as Record<string, string[]>,
+  // How many Responses API results to keep in memory for previous_response_id and GET /v1/responses/:id
+  RESPONSES_STORE_LIMIT: Number(process.env.RESPONSES_STORE_LIMIT) || 1000,
+  // How many /api/generate conversations to keep in memory for clients handing `context` back
+  CONTEXT_STORE_LIMIT: Number(process.env.CONTEXT_STORE_LIMIT) || 1000,
+  // How GLM reasoning_content reaches chat clients: 'separate' (reasoning_content delta), 'think' (inline <think> tags) or 'strip'
+  REASONING_MODE: (process.env.REASONING_MODE || 'separate').trim(),
+  // Per-model overrides of REASONING_MODE, e.g. "glm-4.5-air=strip,glm-4.6=think"
+  REASONING_MODE_BY_MODEL: parseModelMap(process.env.REASONING_MODE_BY_MODEL),
+  // Per-model default for Zhipu's thinking switch when the client does not ask, e.g. "glm-4.5-air=disabled,glm-4.6=enabled"
+  THINKING_BY_MODEL: parseModelMap(process.env.THINKING_BY_MODEL),
+  // Models beyond those marked `thinking` in models.json that take Zhipu's thinking switch, e.g. "glm-5*,deepseek-*"
+  THINKING_MODELS: parseList(process.env.THINKING_MODELS),
+  // Limits per client (gateway token, or IP without inbound auth) and for the whole gateway; 0 means no limit
+  RATE_LIMIT_RPM: Number(process.env.RATE_LIMIT_RPM) || 0,
+  RATE_LIMIT_TPM: Number(process.env.RATE_LIMIT_TPM) || 0,
+  RATE_LIMIT_CONCURRENCY: Number(process.env.RATE_LIMIT_CONCURRENCY) || 0,
+  GLOBAL_RATE_LIMIT_RPM: Number(process.env.GLOBAL_RATE_LIMIT_RPM) || 0,
+  GLOBAL_RATE_LIMIT_TPM: Number(process.env.GLOBAL_RATE_LIMIT_TPM) || 0,
+  GLOBAL_RATE_LIMIT_CONCURRENCY: Number(process.env.GLOBAL_RATE_LIMIT_CONCURRENCY) || 0,
+  // Queue priority by Copilot intent, e.g. "conversation-agent=low,*review*=high" (high, normal, low or a number)
+  INTENT_PRIORITIES: parseModelMap(process.env.INTENT_PRIORITIES),
+  // How long, and how many requests per client, may wait for room before getting a 429
+  RATE_LIMIT_QUEUE_TIMEOUT_MS: parseNumber(process.env.RATE_LIMIT_QUEUE_TIMEOUT_MS, 30_000),
+  RATE_LIMIT_QUEUE_SIZE: Number(process.env.RATE_LIMIT_QUEUE_SIZE) || 50,
+  // Attempts per upstream call (1 disables retries) and the exponential backoff range for 429/5xx/connection errors
+  UPSTREAM_MAX_ATTEMPTS: Number(process.env.UPSTREAM_MAX_ATTEMPTS) || 3,
+  UPSTREAM_RETRY_BASE_MS: Number(process.env.UPSTREAM_RETRY_BASE_MS) || 500,
+  UPSTREAM_RETRY_MAX_MS: Number(process.env.UPSTREAM_RETRY_MAX_MS) || 8000,
+  // How long an API key is skipped after a 429 without Retry-After, and after a 401/403
+  UPSTREAM_KEY_BENCH_MS: Number(process.env.UPSTREAM_KEY_BENCH_MS) || 60_000,
+  UPSTREAM_KEY_AUTH_BENCH_MS: Number(process.env.UPSTREAM_KEY_AUTH_BENCH_MS) || 600_000,
+  // How long startup waits for a PROVIDERS upstream to list its models
+  PROVIDER_DISCOVERY_TIMEOUT_MS: Number(process.env.PROVIDER_DISCOVERY_TIMEOUT_MS) || 10_000,
 };
 
 export const initializeConfig = () => {
@@ -29,5 +300,21 @@ export const initializeConfig = () => {
   if (!apiKey) {
     throw new Error(`API key not found. Please set ${apiKeyNames.join(' or ')} in your environment.`);
   }
-  config.ZHIPUAI_API_KEY = apiKey;
+  // Several keys can be given as a comma-separated list, each a key or the name of a variable holding one.
+  const apiKeys = apiKey.includes(',') ? parseTokenList(apiKey) : [apiKey];
+  if (!apiKeys.length) {
+    throw new Error(`API key not found. Please set ${apiKeyNames.join(' or ')} in your environment.`);
+  }
+  config.ZHIPUAI_API_KEY = apiKeys[0];
+  config.ZHIPUAI_API_KEYS = apiKeys;
+  config.GATEWAY_TOKENS = parseTokenList(process.env.GATEWAY_TOKENS);
+  config.MODEL_ROUTES = parseModelRoutes(process.env.MODEL_ROUTES);
+  config.MODEL_RULES = parseModelRules(process.env.MODEL_RULES);
+  config.PROVIDERS = parseProviders(process.env.PROVIDERS);
+  config.MODEL_FALLBACKS = parseModelFallbacks(process.env.MODEL_FALLBACKS);
+  for (const route of config.MODEL_ROUTES) {
+    if (route.provider && route.provider !== ZHIPU_PROVIDER && !config.PROVIDERS.some((p) => p.name === route.provider)) {
+      throw new Error(`MODEL_ROUTES entry '${route.pattern}' uses unknown provider '${route.provider}'`);
+    }
+  }
 };
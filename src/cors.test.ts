@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { config } from './config';
+import { registerCors, corsHeaders } from './cors';
+import { registerAuth } from './auth';
+import { registerMetaRoutes } from './routes/meta';
+
+describe('CORS policy', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    registerCors(app);
+    registerAuth(app);
+    registerMetaRoutes(app);
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    config.CORS_ORIGINS = [];
+    config.CORS_ALLOW_CREDENTIALS = false;
+    config.GATEWAY_TOKENS = [];
+  });
+
+  it('sends no CORS headers unless the origin is allowed', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/version', headers: { origin: 'https://evil.example' } });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['access-control-allow-origin']).toBeUndefined();
+
+    const preflight = await app.inject({ method: 'OPTIONS', url: '/v1/chat/completions', headers: { origin: 'https://evil.example' } });
+    expect(preflight.statusCode).toBe(403);
+    expect(preflight.headers['access-control-allow-origin']).toBeUndefined();
+  });
+
+  it('echoes allowed origins, including pattern matches, with the Copilot headers allowed', async () => {
+    config.CORS_ORIGINS = ['http://localhost:*', 'https://chat.example.com'];
+
+    const preflight = await app.inject({ method: 'OPTIONS', url: '/v1/chat/completions', headers: { origin: 'http://localhost:3000' } });
+    expect(preflight.statusCode).toBe(204);
+    expect(preflight.headers['access-control-allow-origin']).toBe('http://localhost:3000');
+    expect(preflight.headers.vary).toBe('Origin');
+    expect(preflight.headers['access-control-allow-headers']).toContain('X-Request-Id');
+    expect(preflight.headers['access-control-allow-headers']).toContain('OpenAI-Intent');
+    expect(preflight.headers['access-control-allow-credentials']).toBeUndefined();
+
+    const response = await app.inject({ method: 'GET', url: '/api/tags', headers: { origin: 'https://chat.example.com' } });
+    expect(response.headers['access-control-allow-origin']).toBe('https://chat.example.com');
+    expect(response.headers['access-control-expose-headers']).toContain('X-Upstream-Model');
+  });
+
+  it('allows any origin with "*", echoing it when credentials are allowed', () => {
+    config.CORS_ORIGINS = ['*'];
+    expect(corsHeaders('https://a.example')['Access-Control-Allow-Origin']).toBe('*');
+    expect(corsHeaders(undefined)).toEqual({});
+
+    config.CORS_ALLOW_CREDENTIALS = true;
+    expect(corsHeaders('https://a.example')).toMatchObject({
+      'Access-Control-Allow-Origin': 'https://a.example',
+      'Access-Control-Allow-Credentials': 'true',
+      Vary: 'Origin',
+    });
+  });
+
+  it('keeps CORS headers on requests rejected for a missing gateway token', async () => {
+    config.CORS_ORIGINS = ['https://chat.example.com'];
+    config.GATEWAY_TOKENS = ['team-token'];
+
+    const response = await app.inject({ method: 'GET', url: '/v1/models', headers: { origin: 'https://chat.example.com' } });
+    expect(response.statusCode).toBe(401);
+    expect(response.headers['access-control-allow-origin']).toBe('https://chat.example.com');
+  });
+});
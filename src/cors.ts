@@ -0,0 +1,41 @@
+import type { FastifyInstance } from 'fastify';
+import { config } from './config';
+import { patternToRegExp } from './routing';
+
+const ALLOWED_METHODS = 'GET,POST,DELETE,OPTIONS';
+// Gateway headers browsers may read from responses.
+const EXPOSED_HEADERS = 'X-Upstream-Retries, X-Upstream-Model';
+
+/** Whether CORS_ORIGINS lets pages from `origin` call the gateway; entries may use "*" (e.g. "http://localhost:*"). */
+export function isAllowedOrigin(origin: string): boolean {
+  return config.CORS_ORIGINS.some((pattern) => pattern === origin || patternToRegExp(pattern).test(origin));
+}
+
+/**
+ * CORS headers for a request from `origin`: none for origins outside CORS_ORIGINS (browsers then
+ * block the response), "*" when any origin is allowed without credentials, the origin itself otherwise.
+ */
+export function corsHeaders(origin: string | undefined): Record<string, string> {
+  if (!origin || !isAllowedOrigin(origin)) return {};
+  const anyOrigin = config.CORS_ORIGINS.includes('*') && !config.CORS_ALLOW_CREDENTIALS;
+  return {
+    'Access-Control-Allow-Origin': anyOrigin ? '*' : origin,
+    ...(anyOrigin ? {} : { Vary: 'Origin' }),
+    ...(config.CORS_ALLOW_CREDENTIALS ? { 'Access-Control-Allow-Credentials': 'true' } : {}),
+    'Access-Control-Allow-Methods': ALLOWED_METHODS,
+    'Access-Control-Allow-Headers': config.CORS_ALLOW_HEADERS.join(', '),
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+  };
+}
+
+/**
+ * Apply the CORS policy to every response. Headers go on the raw response so they also reach
+ * streaming replies, which write their own head.
+ */
+export function registerCors(app: FastifyInstance<any, any, any, any>) {
+  app.addHook('onRequest', async (request, reply) => {
+    for (const [name, value] of Object.entries(corsHeaders(request.headers.origin))) {
+      reply.raw.setHeader(name, value);
+    }
+  });
+}
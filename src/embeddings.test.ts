@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { embedAll, toBase64Embedding, toEmbeddingInputs, EMBEDDING_BATCH_SIZE } from './embeddings';
+import * as zhipu from './zhipu';
+import { getProvider } from './providers';
+
+vi.mock('./zhipu', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./zhipu')>()),
+  zhipuEmbed: vi.fn(),
+}));
+const mockedZhipuEmbed = vi.mocked(zhipu.zhipuEmbed);
+
+// Fake upstream embeddings: each input's vector is [batch offset + position], returned out of order.
+mockedZhipuEmbed.mockImplementation(async (req) => {
+  const inputs = Array.isArray(req.input) ? req.input : [req.input];
+  const data = inputs.map((input, index) => ({ index, object: 'embedding' as const, embedding: [Number(input)] }));
+  return { model: req.model, object: 'list', data: data.reverse(), usage: { prompt_tokens: inputs.length, total_tokens: inputs.length } };
+});
+
+describe('embeddings', () => {
+  beforeEach(() => {
+    mockedZhipuEmbed.mockClear();
+  });
+
+  it('accepts a string or a non-empty array of strings as input', () => {
+    expect(toEmbeddingInputs('a')).toEqual(['a']);
+    expect(toEmbeddingInputs(['a', 'b'])).toEqual(['a', 'b']);
+    expect(toEmbeddingInputs([])).toBeUndefined();
+    expect(toEmbeddingInputs([1, 2, 3])).toBeUndefined();
+    expect(toEmbeddingInputs(undefined)).toBeUndefined();
+  });
+
+  it('splits large batches, keeps input order and sums token counts', async () => {
+    const inputs = Array.from({ length: EMBEDDING_BATCH_SIZE + 2 }, (_, i) => String(i));
+
+    const result = await embedAll(getProvider('zhipu'), 'embedding-3', inputs, 512);
+
+    expect(mockedZhipuEmbed).toHaveBeenCalledTimes(2);
+    expect(mockedZhipuEmbed.mock.calls[0][0]).toMatchObject({ model: 'embedding-3', dimensions: 512 });
+    expect(mockedZhipuEmbed.mock.calls[1][0].input).toEqual([String(EMBEDDING_BATCH_SIZE), String(EMBEDDING_BATCH_SIZE + 1)]);
+    expect(result.embeddings).toEqual(inputs.map((input) => [Number(input)]));
+    expect(result.prompt_tokens).toBe(inputs.length);
+  });
+
+  it('encodes vectors as base64 float32', () => {
+    const encoded = toBase64Embedding([1, -0.5]);
+    expect(Array.from(new Float32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer))).toEqual([1, -0.5]);
+  });
+});
@@ -0,0 +1,48 @@
+import type { ZhipuCallOptions } from './zhipu';
+import type { Provider } from './providers';
+
+// Zhipu accepts at most this many inputs per embeddings call; larger batches are split.
+export const EMBEDDING_BATCH_SIZE = 64;
+
+export interface EmbeddingResult {
+  model: string;
+  embeddings: number[][];
+  prompt_tokens: number;
+}
+
+/** Embedding input as a list of strings, or undefined when it is neither a string nor an array of strings. */
+export function toEmbeddingInputs(input: unknown): string[] | undefined {
+  if (typeof input === 'string') return [input];
+  if (Array.isArray(input) && input.length > 0 && input.every((item) => typeof item === 'string')) return input;
+  return undefined;
+}
+
+/**
+ * Embed `inputs` with the provider, split into calls of EMBEDDING_BATCH_SIZE. Embeddings come
+ * back in input order and token counts are summed across the calls.
+ */
+export async function embedAll(
+  provider: Provider,
+  model: string,
+  inputs: string[],
+  dimensions: number | undefined,
+  options: ZhipuCallOptions = {}
+): Promise<EmbeddingResult> {
+  const result: EmbeddingResult = { model, embeddings: [], prompt_tokens: 0 };
+  for (let start = 0; start < inputs.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = inputs.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const resp = await provider.embed(
+      { model, input: batch.length === 1 ? batch[0] : batch, ...(dimensions !== undefined ? { dimensions } : {}) },
+      options
+    );
+    const data = [...(resp.data ?? [])].sort((a, b) => a.index - b.index);
+    result.embeddings.push(...data.map((item) => item.embedding));
+    result.prompt_tokens += resp.usage?.prompt_tokens ?? 0;
+  }
+  return result;
+}
+
+/** OpenAI's `encoding_format: "base64"`: the vector as little-endian float32s. */
+export function toBase64Embedding(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString('base64');
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { translateUpstreamError, toOpenAIError, toOllamaError } from './errors';
+
+const zhipuError = (status: number, code: string, message: string, data?: unknown) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers: {}, data: data ?? { error: { code, message } } },
+  });
+
+describe('translateUpstreamError', () => {
+  it.each([
+    ['1113', 429, 'insufficient_quota', 'insufficient_quota', null],
+    ['1261', 400, 'invalid_request_error', 'context_length_exceeded', 'messages'],
+    ['1301', 400, 'invalid_request_error', 'content_filter', null],
+    ['1302', 429, 'rate_limit_error', 'rate_limit_exceeded', null],
+  ])('maps Zhipu code %s', async (code, status, type, openaiCode, param) => {
+    const translated = await translateUpstreamError(zhipuError(status === 400 ? 400 : 429, code, 'upstream says no'));
+    expect(translated).toMatchObject({ status, type, code: openaiCode, param });
+    expect(translated.message).toContain(`Zhipu ${code}`);
+    expect(translated.message).toContain('upstream says no');
+  });
+
+  it('reads error bodies of streamed calls', async () => {
+    const body = Readable.from([Buffer.from('{"error":{"code":"1261","message":"Prompt exceeds max length"}}')]);
+    const translated = await translateUpstreamError(zhipuError(400, '', '', body));
+    expect(translated).toMatchObject({ status: 400, code: 'context_length_exceeded' });
+  });
+
+  it('turns auth, server and connection failures into 502s', async () => {
+    expect(await translateUpstreamError(zhipuError(401, '1001', 'bad token'))).toMatchObject({ status: 502, type: 'api_error' });
+    expect(await translateUpstreamError(zhipuError(500, '500', 'boom'))).toMatchObject({ status: 502, type: 'api_error' });
+    expect(await translateUpstreamError(new Error('socket hang up'))).toEqual({
+      status: 502,
+      message: 'Upstream API error: socket hang up',
+      type: 'api_error',
+      code: 'upstream_error',
+      param: null,
+    });
+  });
+
+  it('keeps other client errors and plain-text bodies', async () => {
+    const translated = await translateUpstreamError(zhipuError(422, '', '', 'unprocessable'));
+    expect(translated).toMatchObject({ status: 422, type: 'invalid_request_error', message: 'unprocessable' });
+  });
+
+  it('formats OpenAI and Ollama error bodies', async () => {
+    const translated = await translateUpstreamError(zhipuError(429, '1302', 'slow down'));
+    expect(toOpenAIError(translated)).toEqual({
+      error: { message: translated.message, type: 'rate_limit_error', code: 'rate_limit_exceeded', param: null },
+    });
+    expect(toOllamaError(translated)).toEqual({ error: translated.message });
+  });
+});
@@ -0,0 +1,136 @@
+type AnyObj = Record<string, any>;
+
+/** An upstream failure translated into what the gateway answers with. */
+export interface GatewayError {
+  status: number;
+  message: string;
+  type: string;
+  code: string | null;
+  param: string | null;
+}
+
+type ErrorMapping = Omit<GatewayError, 'message'> & { hint: string };
+
+// Zhipu business codes (`error.code` in the response body) that clients can act on.
+const ZHIPU_ERROR_CODES: Record<string, ErrorMapping> = {
+  '1113': { status: 429, type: 'insufficient_quota', code: 'insufficient_quota', param: null, hint: 'Zhipu account balance is insufficient' },
+  '1211': { status: 404, type: 'invalid_request_error', code: 'model_not_found', param: 'model', hint: 'Model does not exist' },
+  '1214': { status: 400, type: 'invalid_request_error', code: 'invalid_parameter', param: null, hint: 'Invalid request parameter' },
+  '1261': { status: 400, type: 'invalid_request_error', code: 'context_length_exceeded', param: 'messages', hint: 'Prompt is too long for the model' },
+  '1301': { status: 400, type: 'invalid_request_error', code: 'content_filter', param: null, hint: 'Content was blocked by the safety filter' },
+  '1302': { status: 429, type: 'rate_limit_error', code: 'rate_limit_exceeded', param: null, hint: 'Too many concurrent requests' },
+  '1303': { status: 429, type: 'rate_limit_error', code: 'rate_limit_exceeded', param: null, hint: 'Requests are too frequent' },
+  '1304': { status: 429, type: 'insufficient_quota', code: 'insufficient_quota', param: null, hint: 'Daily call limit reached' },
+  '1305': { status: 429, type: 'rate_limit_error', code: 'rate_limit_exceeded', param: null, hint: 'Too many requests' },
+};
+
+// Streamed calls keep the error body as a stream; read at most this much of it.
+const MAX_ERROR_BODY_BYTES = 64 * 1024;
+
+/** An error body as JSON (or text), reading it first when it is still a stream. */
+export async function readErrorBody(data: unknown): Promise<unknown> {
+  let text: string | undefined;
+  if (data && typeof (data as any)[Symbol.asyncIterator] === 'function' && typeof (data as any).on === 'function') {
+    text = '';
+    try {
+      for await (const chunk of data as AsyncIterable<Buffer | string>) {
+        text += chunk.toString();
+        if (text.length > MAX_ERROR_BODY_BYTES) break;
+      }
+    } catch {
+      // A body cut short still tells us as much as it can.
+    }
+  } else if (Buffer.isBuffer(data)) {
+    text = data.toString('utf8');
+  } else if (typeof data === 'string') {
+    text = data;
+  } else {
+    return data;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Translate an upstream (axios) error into an HTTP status and an OpenAI-style error.
+ * Zhipu business codes get specific statuses and codes (quota, rate limit, context
+ * length, content filter); other HTTP errors keep client-error statuses, while auth,
+ * server and connection failures become 502s.
+ */
+export async function translateUpstreamError(error: any): Promise<GatewayError> {
+  const response = error?.response;
+  if (!response) {
+    return { status: 502, message: `Upstream API error: ${error?.message ?? String(error)}`, type: 'api_error', code: 'upstream_error', param: null };
+  }
+
+  return translateErrorBody(await readErrorBody(response.data), response.status, error?.message);
+}
+
+function upstreamErrorOf(data: unknown): AnyObj | undefined {
+  const body = data as AnyObj | string | undefined;
+  return typeof body === 'object' && body ? body.error ?? body : undefined;
+}
+
+/** Whether an error body carries a Zhipu code for an exhausted balance or daily limit, which waiting does not fix. */
+export function isQuotaExhausted(data: unknown): boolean {
+  const code = upstreamErrorOf(data)?.code;
+  return code !== undefined && ZHIPU_ERROR_CODES[String(code)]?.code === 'insufficient_quota';
+}
+
+/**
+ * Translate a Zhipu error body, e.g. `{error: {code: '1302', message}}`, received with
+ * HTTP `status`. Also used for errors Zhipu reports inside an already-open stream.
+ */
+export function translateErrorBody(data: unknown, status: number, fallbackMessage?: string): GatewayError {
+  const body = data as AnyObj | string | undefined;
+  const upstream = upstreamErrorOf(data);
+  const upstreamCode = upstream?.code !== undefined ? String(upstream.code) : undefined;
+  const upstreamMessage = typeof upstream?.message === 'string' ? upstream.message : typeof body === 'string' && body ? body : fallbackMessage ?? 'Unknown error';
+
+  const mapping = upstreamCode ? ZHIPU_ERROR_CODES[upstreamCode] : undefined;
+  if (mapping) {
+    const { hint, ...rest } = mapping;
+    return { ...rest, message: `${hint} (Zhipu ${upstreamCode}): ${upstreamMessage}` };
+  }
+
+  if (status === 429) {
+    return { status, message: upstreamMessage, type: 'rate_limit_error', code: 'rate_limit_exceeded', param: null };
+  }
+  if (status >= 400 && status < 500 && status !== 401 && status !== 403) {
+    return { status, message: upstreamMessage, type: 'invalid_request_error', code: upstreamCode ?? null, param: null };
+  }
+  // The gateway's own credentials or the upstream service failed; nothing the client can fix.
+  return { status: 502, message: `Upstream API error (${status}): ${upstreamMessage}`, type: 'api_error', code: upstreamCode ?? 'upstream_error', param: null };
+}
+
+// Reported in-band when an upstream stream stops before it finished the response.
+export const INCOMPLETE_STREAM_ERROR: GatewayError = {
+  status: 502,
+  message: 'Upstream stream ended before the response was complete',
+  type: 'api_error',
+  code: 'incomplete_response',
+  param: null,
+};
+
+/** A request the gateway turns down itself, before calling upstream (bad JSON, a missing field, an unknown id). */
+export function invalidRequestError(message: string, param: string | null = null, status = 400): GatewayError {
+  return { status, message, type: 'invalid_request_error', code: null, param };
+}
+
+/** OpenAI error body: `{error: {message, type, code, param}}`. */
+export function toOpenAIError(error: GatewayError) {
+  return { error: { message: error.message, type: error.type, code: error.code, param: error.param } };
+}
+
+/** Ollama error body: `{error: "message"}`. */
+export function toOllamaError(error: GatewayError) {
+  return { error: error.message };
+}
+
+/** The error body in the format of the API `path` belongs to: Ollama's for /api/*, OpenAI's otherwise. */
+export function toErrorBody(path: string, error: GatewayError) {
+  return path.startsWith('/api/') ? toOllamaError(error) : toOpenAIError(error);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios from 'axios';
+import { config, parseModelRoutes } from './config';
+import { applyRoute, fallbackChain, withFallbacks } from './fallback';
+import { logger } from './logger';
+import type { ZhipuChatRequest } from './zhipu';
+
+vi.mock('axios');
+vi.mock('./logger', () => ({
+  logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const route = { model: 'glm-4.6', provider: 'zhipu', params: {} };
+const upstreamError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+describe('model fallbacks', () => {
+  afterEach(() => {
+    config.MODEL_FALLBACKS = {};
+    config.MODEL_ROUTES = [];
+    config.THINKING_BY_MODEL = {};
+    vi.mocked(logger.warn).mockClear();
+  });
+
+  it('builds the chain from MODEL_FALLBACKS, resolving routes and skipping unknown models', () => {
+    config.MODEL_ROUTES = parseModelRoutes('{"fast": {"model": "glm-4.5-air", "temperature": 0.2}}');
+    config.MODEL_FALLBACKS = { 'glm-4.6': ['glm-4.5', 'gpt-4o', 'fast'] };
+
+    expect(fallbackChain(route)).toEqual([
+      route,
+      { model: 'glm-4.5', provider: 'zhipu', params: {} },
+      { model: 'glm-4.5-air', provider: 'zhipu', params: { temperature: 0.2 } },
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith({ model: 'glm-4.6', fallback: 'gpt-4o' }, 'Ignoring unknown fallback model');
+    expect(fallbackChain({ ...route, model: 'glm-4.5' })).toHaveLength(1);
+  });
+
+  it('moves down the chain on rate limits and server errors and reports the model that answered', async () => {
+    config.MODEL_ROUTES = parseModelRoutes('{"fast": {"model": "glm-4-plus", "temperature": 0.2}}');
+    config.MODEL_FALLBACKS = { 'glm-4.6': ['glm-4.5', 'fast'] };
+    const req: ZhipuChatRequest = { model: 'glm-4.6', messages: [], thinking: { type: 'enabled' } };
+    const tried: string[] = [];
+    const onModel = vi.fn();
+
+    const result = await withFallbacks(
+      route,
+      req,
+      async () => {
+        tried.push(req.model);
+        if (tried.length === 1) throw upstreamError(429);
+        if (tried.length === 2) throw upstreamError(503);
+        return 'ok';
+      },
+      { onModel }
+    );
+
+    expect(result).toBe('ok');
+    expect(tried).toEqual(['glm-4.6', 'glm-4.5', 'glm-4-plus']);
+    expect(onModel).toHaveBeenCalledWith('glm-4-plus');
+    // glm-4-plus takes no thinking switch; the route's defaults still apply
+    expect(req).toMatchObject({ model: 'glm-4-plus', temperature: 0.2 });
+    expect(req.thinking).toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith(
+      { requested: 'glm-4.6', failed: 'glm-4.6', next: 'glm-4.5', status: 429, code: undefined },
+      'Falling back to the next model'
+    );
+  });
+
+  it('rebuilds the request from the client parameters for each fallback model', async () => {
+    config.MODEL_FALLBACKS = { 'glm-4.5-air': ['glm-4.5'] };
+    config.THINKING_BY_MODEL = { 'glm-4.5': 'enabled' };
+    const fast = { model: 'glm-4.5-air', provider: 'zhipu', params: { temperature: 0.2 } };
+    const req: ZhipuChatRequest = { model: 'fast', messages: [], top_p: 0.9 };
+    applyRoute(req, fast, undefined);
+    expect(req).toEqual({ model: 'glm-4.5-air', messages: [], top_p: 0.9, temperature: 0.2 });
+
+    const sent: ZhipuChatRequest[] = [];
+    await withFallbacks(fast, req, async () => {
+      sent.push({ ...req });
+      if (sent.length === 1) throw upstreamError(503);
+      return 'ok';
+    });
+
+    // The alias's temperature stays behind; glm-4.5 gets its own thinking default.
+    expect(sent[1]).toEqual({ model: 'glm-4.5', messages: [], top_p: 0.9, thinking: { type: 'enabled' } });
+  });
+
+  it('does not fall back on client errors, cancelled requests or the last model', async () => {
+    config.MODEL_FALLBACKS = { 'glm-4.6': ['glm-4.5'] };
+    const call = vi.fn().mockRejectedValue(upstreamError(400));
+    await expect(withFallbacks(route, { model: 'glm-4.6', messages: [] }, call)).rejects.toThrow(/400/);
+    expect(call).toHaveBeenCalledTimes(1);
+
+    const controller = new AbortController();
+    controller.abort();
+    call.mockClear().mockRejectedValue(upstreamError(429));
+    await expect(withFallbacks(route, { model: 'glm-4.6', messages: [] }, call, { signal: controller.signal })).rejects.toThrow(/429/);
+    expect(call).toHaveBeenCalledTimes(1);
+
+    call.mockClear();
+    await expect(withFallbacks(route, { model: 'glm-4.6', messages: [] }, call)).rejects.toThrow(/429/);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back after one upstream call when the model is out of quota or its only key is rate limited', async () => {
+    config.MODEL_FALLBACKS = { 'glm-4.6': ['glm-4.5'] };
+    const zhipuError = (code: string) =>
+      Object.assign(upstreamError(429), { response: { status: 429, headers: {}, data: { error: { code, message: 'limited' } } } });
+
+    for (const code of ['1113', '1302']) {
+      vi.mocked(axios.post)
+        .mockReset()
+        .mockRejectedValueOnce(zhipuError(code))
+        .mockResolvedValueOnce({ data: { id: 'ok', created: 1, model: 'glm-4.5', choices: [] }, status: 200 });
+      const req: ZhipuChatRequest = { model: 'glm-4.6', messages: [] };
+
+      const result = await withFallbacks(route, req, (provider, callOptions) => provider.chatOnce(req, callOptions));
+
+      expect(result.id).toBe('ok');
+      expect(vi.mocked(axios.post).mock.calls.map((call) => (call[1] as ZhipuChatRequest).model)).toEqual(['glm-4.6', 'glm-4.5']);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import { config } from './config';
+import { logger } from './logger';
+import { getProvider, Provider } from './providers';
+import { resolveModel, applyRouteDefaults, ResolvedModel } from './routing';
+import { isQuotaError, isRetryable } from './upstream';
+import { resolveThinking, ThinkingType } from './reasoning';
+import type { ZhipuCallOptions, ZhipuChatRequest } from './zhipu';
+
+export interface FallbackOptions {
+  signal?: AbortSignal;
+  // Called with the upstream model that answered, whether or not it was a fallback.
+  onModel?: (model: string) => void;
+}
+
+/** `route` followed by the MODEL_FALLBACKS chain declared for its model, skipping names that do not resolve. */
+export function fallbackChain(route: ResolvedModel): ResolvedModel[] {
+  const chain = [route];
+  for (const name of config.MODEL_FALLBACKS[route.model] ?? []) {
+    const fallback = resolveModel(name);
+    if (fallback) {
+      chain.push(fallback);
+    } else {
+      logger.warn({ model: route.model, fallback: name }, 'Ignoring unknown fallback model');
+    }
+  }
+  return chain;
+}
+
+// The client's own parameters and thinking choice, by the upstream request built from them (see applyRoute).
+const clientRequests = new WeakMap<ZhipuChatRequest, { params: ZhipuChatRequest; thinking?: ThinkingType }>();
+
+function fillRoute(req: ZhipuChatRequest, route: ResolvedModel, requested: ThinkingType | undefined): void {
+  req.model = route.model;
+  const thinking = resolveThinking(route.model, requested);
+  if (thinking) req.thinking = thinking;
+  applyRouteDefaults(req, route.params);
+}
+
+/**
+ * Point `req`, holding only what the client asked for, at `route`: its model, the model's thinking
+ * (the client's `requested` choice, else its THINKING_BY_MODEL default) and the route's defaults.
+ * The client's parameters are kept aside so a fallback model starts from them again.
+ */
+export function applyRoute(req: ZhipuChatRequest, route: ResolvedModel, requested: ThinkingType | undefined): void {
+  clientRequests.set(req, { params: { ...req }, thinking: requested });
+  fillRoute(req, route, requested);
+}
+
+// Rebuild `req` for the next model in the chain, dropping what the previous route added.
+function switchModel(req: ZhipuChatRequest, next: ResolvedModel): void {
+  const client = clientRequests.get(req)!;
+  for (const key of Object.keys(req)) delete (req as Record<string, any>)[key];
+  Object.assign(req, client.params);
+  fillRoute(req, next, client.thinking);
+}
+
+/**
+ * Run `call` against the route's provider, moving down the model's fallback chain while the
+ * upstream is rate limited, out of quota (both 429s), failing (5xx) or unreachable. `call` gets
+ * the options to pass upstream so that, while a fallback remains, 429s come back without waiting
+ * for the key to recover. `req` is rebuilt for the model being tried (see switchModel), so after
+ * success it names the model that answered. Calls must not have sent anything to the client before they settle.
+ */
+export async function withFallbacks<T>(
+  route: ResolvedModel,
+  req: ZhipuChatRequest,
+  call: (provider: Provider, callOptions: Pick<ZhipuCallOptions, 'hasFallback'>) => Promise<T>,
+  options: FallbackOptions = {}
+): Promise<T> {
+  const chain = fallbackChain(route);
+  // Requests not built with applyRoute fall back from their parameters as they are.
+  if (!clientRequests.has(req)) {
+    const { thinking, ...params } = req;
+    clientRequests.set(req, { params, thinking: thinking?.type });
+  }
+  for (let index = 0; ; index++) {
+    const current = chain[index];
+    if (index > 0) switchModel(req, current);
+    try {
+      const result = await call(getProvider(current.provider), { hasFallback: index < chain.length - 1 });
+      options.onModel?.(current.model);
+      return result;
+    } catch (error: any) {
+      const next = chain[index + 1];
+      if (!next || options.signal?.aborted || !(isRetryable(error) || isQuotaError(error))) throw error;
+
+      // A failed stream still holds its (error) body open.
+      error?.response?.data?.destroy?.();
+      logger.warn(
+        { requested: route.model, failed: current.model, next: next.model, status: error?.response?.status, code: error?.code },
+        'Falling back to the next model'
+      );
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildFimMessages, cleanFimCompletion, createFimCleaner } from './fim';
+
+// Feed `text` to a streaming cleaner one character at a time.
+const cleanByChar = (text: string) => {
+  const cleaner = createFimCleaner();
+  return [...text].map((char) => cleaner.push(char)).join('') + cleaner.flush();
+};
+
+describe('fill-in-the-middle', () => {
+  it('puts the prefix and suffix around the gap in the prompt', () => {
+    const [system, user] = buildFimMessages('const a = ', ';\n');
+    expect(system.role).toBe('system');
+    expect(user.content).toBe('<prefix>\nconst a = \n</prefix>\n<suffix>\n;\n\n</suffix>\nWrite the text that goes between <prefix> and <suffix>.');
+  });
+
+  it('passes plain completions through unchanged', () => {
+    expect(cleanFimCompletion('return a + b;\n}')).toBe('return a + b;\n}');
+    expect(cleanByChar('return a + b;\n}')).toBe('return a + b;\n}');
+  });
+
+  it('strips code fences', () => {
+    expect(cleanFimCompletion('```ts\nreturn a + b;\n```')).toBe('return a + b;');
+    expect(cleanByChar('```ts\nreturn a + b;\n```')).toBe('return a + b;');
+  });
+
+  it('strips chatty lead-ins and commentary after the closing fence', () => {
+    const answer = 'Here is the code:\n```python\nx = 1\n```\n\nThis sets x.';
+    expect(cleanFimCompletion(answer)).toBe('x = 1');
+    expect(cleanByChar(answer)).toBe('x = 1');
+    expect(cleanFimCompletion('Sure! Here you go:\nfoo()')).toBe('foo()');
+  });
+
+  it('keeps lines that only look like lead-ins once content has started', () => {
+    expect(cleanFimCompletion('x = 1\n# here is a note:\ny = 2')).toBe('x = 1\n# here is a note:\ny = 2');
+  });
+});
@@ -0,0 +1,126 @@
+import type { ZhipuChatMessage } from './zhipu';
+
+// GLM has no native fill-in-the-middle mode, so the gap is described to the chat model instead.
+const FIM_SYSTEM_PROMPT = [
+  'You are a code completion engine.',
+  'You are given the text before and after a cursor position.',
+  'Reply with ONLY the text that belongs at the cursor: no explanations, no markdown, no code fences,',
+  'and do not repeat any of the surrounding text.',
+].join(' ');
+
+/** Build chat messages asking GLM to fill the gap between `prefix` and `suffix`. */
+export function buildFimMessages(prefix: string, suffix: string): ZhipuChatMessage[] {
+  return [
+    { role: 'system', content: FIM_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `<prefix>\n${prefix}\n</prefix>\n<suffix>\n${suffix}\n</suffix>\nWrite the text that goes between <prefix> and <suffix>.`,
+    },
+  ];
+}
+
+// Opening/closing markdown fence, e.g. "```ts" or "```".
+const FENCE_LINE = /^\s*```[\w+#.-]*\s*$/;
+// Chatty lead-ins such as "Here is the completed code:" that chat models like to add.
+const WRAPPER_STARTS = ['here', 'sure', 'certainly', 'okay', 'ok', 'the completion', 'the completed code', 'the missing code', 'the code'];
+const WRAPPER_LINE = new RegExp(`^\\s*(${WRAPPER_STARTS.join('|')})\\b[^\\n]*:\\s*$`, 'i');
+// A first line longer than this is content, whatever it looks like.
+const MAX_LEAD_IN_LENGTH = 200;
+
+// Whether an unfinished first line may still turn out to be a fence or a chatty lead-in.
+function couldBeLeadIn(partial: string): boolean {
+  const text = partial.trimStart().toLowerCase();
+  if (!text || text.startsWith('`')) return true;
+  return WRAPPER_STARTS.some((start) => start.startsWith(text) || text.startsWith(start));
+}
+
+/**
+ * Incrementally strip what a chat model wraps around a fill-in-the-middle answer:
+ * leading chatty lines and code fences, and a closing fence (plus any commentary after
+ * it) at the end. `push` returns the text that is safe to emit so far, holding back
+ * trailing lines that may still become a closing fence; `flush` returns the rest once
+ * the answer is complete.
+ */
+export function createFimCleaner() {
+  let head = '';
+  let headDone = false;
+  let fenced = false;
+  let closed = false;
+  let tail = '';
+
+  // Drop wrapper and fence lines from the start; true once real content has begun.
+  const trimHead = (final: boolean): boolean => {
+    for (;;) {
+      const newline = head.indexOf('\n');
+      if (newline === -1) {
+        if (!final && head.length < MAX_LEAD_IN_LENGTH && couldBeLeadIn(head)) return false;
+        if (FENCE_LINE.test(head) || WRAPPER_LINE.test(head)) head = '';
+        return true;
+      }
+      const line = head.slice(0, newline);
+      if (FENCE_LINE.test(line)) {
+        fenced = true;
+      } else if (!WRAPPER_LINE.test(line)) {
+        return true;
+      }
+      head = head.slice(newline + 1);
+    }
+  };
+
+  const release = (text: string): string => {
+    if (closed) return '';
+    tail += text;
+    const lines = tail.split('\n');
+
+    // In a fenced answer the closing fence ends it; anything after is commentary.
+    const closing = fenced ? lines.slice(0, -1).findIndex((line) => FENCE_LINE.test(line)) : -1;
+    if (closing !== -1) {
+      closed = true;
+      tail = '';
+      return lines.slice(0, closing).join('\n');
+    }
+
+    let keep = lines.length;
+    while (keep > 0 && /^\s*`{0,3}\s*$/.test(lines[keep - 1])) keep--;
+    if (keep === lines.length) {
+      const out = tail;
+      tail = '';
+      return out;
+    }
+    const out = lines.slice(0, keep).join('\n');
+    tail = (keep > 0 ? '\n' : '') + lines.slice(keep).join('\n');
+    return out;
+  };
+
+  return {
+    push(text: string): string {
+      if (headDone) return release(text);
+      head += text;
+      if (!trimHead(false)) return '';
+      headDone = true;
+      const out = head;
+      head = '';
+      return release(out);
+    },
+    flush(): string {
+      let out = '';
+      if (!headDone) {
+        trimHead(true);
+        headDone = true;
+        out = release(head);
+        head = '';
+      }
+      if (closed) return out;
+      const lines = tail.split('\n');
+      const fence = lines.findIndex((line) => FENCE_LINE.test(line));
+      tail = '';
+      return out + (fence === -1 ? lines.join('\n') : lines.slice(0, fence).join('\n'));
+    },
+  };
+}
+
+/** Strip fences and chatty wrappers from a complete fill-in-the-middle answer. */
+export function cleanFimCompletion(text: string): string {
+  const cleaner = createFimCleaner();
+  return cleaner.push(text) + cleaner.flush();
+}
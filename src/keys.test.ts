@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { acquireKey, releaseKey, hasHealthyKey, keyUsage, resetKeyUsage } from './keys';
+
+vi.mock('./logger', () => ({
+  logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('./config', () => ({
+  config: { UPSTREAM_KEY_BENCH_MS: 60_000, UPSTREAM_KEY_AUTH_BENCH_MS: 600_000 },
+}));
+
+const keys = ['sk-first-aaaa', 'sk-second-bbbb', 'sk-third-cccc'];
+const httpError = (status: number) => ({ response: { status } });
+
+describe('API key pool', () => {
+  afterEach(() => {
+    resetKeyUsage();
+    vi.useRealTimers();
+  });
+
+  it('takes turns between idle keys and prefers the least loaded one', () => {
+    vi.useFakeTimers();
+    const picked = keys.map(() => {
+      vi.advanceTimersByTime(1);
+      return acquireKey('Zhipu', keys);
+    });
+    expect(picked).toEqual(keys);
+
+    // The first key is still busy, the second one finishes: it gets the next call.
+    releaseKey('Zhipu', 'sk-second-bbbb');
+    releaseKey('Zhipu', 'sk-third-cccc');
+    vi.advanceTimersByTime(1);
+    expect(acquireKey('Zhipu', keys)).toBe('sk-second-bbbb');
+  });
+
+  it('benches keys after 429s and auth errors until they come back', () => {
+    vi.useFakeTimers();
+    releaseKey('Zhipu', acquireKey('Zhipu', keys), httpError(429), 5_000);
+    releaseKey('Zhipu', acquireKey('Zhipu', keys), httpError(401));
+    releaseKey('Zhipu', acquireKey('Zhipu', keys), httpError(500));
+
+    expect(hasHealthyKey('Zhipu', keys)).toBe(true);
+    expect(acquireKey('Zhipu', keys)).toBe('sk-third-cccc');
+    expect(hasHealthyKey('Zhipu', keys.slice(0, 2))).toBe(false);
+    // With every key benched, the one back first is used anyway
+    expect(acquireKey('Zhipu', keys.slice(0, 2))).toBe('sk-first-aaaa');
+
+    vi.advanceTimersByTime(5_000);
+    expect(hasHealthyKey('Zhipu', keys.slice(0, 2))).toBe(true);
+  });
+
+  it('reports per-key usage with masked keys', () => {
+    releaseKey('Zhipu', acquireKey('Zhipu', keys), httpError(429));
+    acquireKey('Zhipu', keys);
+
+    const usage = keyUsage();
+    expect(usage).toHaveLength(3);
+    expect(usage[0]).toMatchObject({ upstream: 'Zhipu', key: '…aaaa', in_flight: 0, requests: 1, errors: 1, rate_limited: 1, auth_errors: 0 });
+    expect(usage[0].benched_until).not.toBeNull();
+    expect(usage[1]).toMatchObject({ key: '…bbbb', in_flight: 1, requests: 1, errors: 0, benched_until: null });
+    expect(usage[2]).toMatchObject({ key: '…cccc', requests: 0, last_used_at: null });
+    expect(JSON.stringify(usage)).not.toContain('sk-');
+  });
+});
@@ -0,0 +1,126 @@
+import { config } from './config';
+import { logger } from './logger';
+
+interface KeyState {
+  key: string;
+  inFlight: number;
+  requests: number;
+  errors: number;
+  rateLimited: number;
+  authErrors: number;
+  // Epoch ms until which the key is skipped while others are available
+  benchedUntil: number;
+  lastUsedAt: number;
+}
+
+export interface KeyUsage {
+  // Upstream the key belongs to, e.g. "Zhipu"
+  upstream: string;
+  // Last characters only, to tell keys apart without exposing them
+  key: string;
+  in_flight: number;
+  requests: number;
+  errors: number;
+  rate_limited: number;
+  auth_errors: number;
+  benched_until: string | null;
+  last_used_at: string | null;
+}
+
+// Per-key counters and health by upstream label, then by key.
+const pools = new Map<string, Map<string, KeyState>>();
+
+function keyState(upstream: string, key: string): KeyState {
+  let pool = pools.get(upstream);
+  if (!pool) pools.set(upstream, (pool = new Map()));
+  let state = pool.get(key);
+  if (!state) {
+    state = { key, inFlight: 0, requests: 0, errors: 0, rateLimited: 0, authErrors: 0, benchedUntil: 0, lastUsedAt: 0 };
+    pool.set(key, state);
+  }
+  return state;
+}
+
+function isBenched(state: KeyState, now: number): boolean {
+  return state.benchedUntil > now;
+}
+
+/**
+ * Pick the key for the next upstream call: the healthy key with the fewest calls in flight,
+ * the least recently used one on a tie (so idle keys take turns). When every key is benched,
+ * the one coming back first is used anyway. Pair each call with `releaseKey`.
+ */
+export function acquireKey(upstream: string, keys: string[]): string {
+  const now = Date.now();
+  const states = keys.map((key) => keyState(upstream, key));
+  const healthy = states.filter((state) => !isBenched(state, now));
+  const chosen = healthy.length
+    ? healthy.reduce((best, state) =>
+        state.inFlight < best.inFlight || (state.inFlight === best.inFlight && state.lastUsedAt < best.lastUsedAt) ? state : best
+      )
+    : states.reduce((best, state) => (state.benchedUntil < best.benchedUntil ? state : best));
+  chosen.inFlight++;
+  chosen.requests++;
+  chosen.lastUsedAt = now;
+  return chosen.key;
+}
+
+/**
+ * Mark a call made with `key` as finished. A 429 benches the key for as long as the upstream
+ * asked (`retryAfterMs`) or UPSTREAM_KEY_BENCH_MS; a 401/403 for UPSTREAM_KEY_AUTH_BENCH_MS.
+ * Returns whether the key was benched.
+ */
+export function releaseKey(upstream: string, key: string, error?: any, retryAfterMs?: number): boolean {
+  const state = keyState(upstream, key);
+  state.inFlight = Math.max(0, state.inFlight - 1);
+  if (!error) return false;
+
+  state.errors++;
+  const status = error?.response?.status;
+  let benchMs = 0;
+  if (status === 429) {
+    state.rateLimited++;
+    benchMs = retryAfterMs ?? config.UPSTREAM_KEY_BENCH_MS;
+  } else if (status === 401 || status === 403) {
+    state.authErrors++;
+    benchMs = config.UPSTREAM_KEY_AUTH_BENCH_MS;
+  }
+  if (benchMs > 0) {
+    state.benchedUntil = Math.max(state.benchedUntil, Date.now() + benchMs);
+    logger.warn({ upstream, key: maskKey(key), status, benchMs }, 'Benching upstream API key');
+    return true;
+  }
+  return false;
+}
+
+/** Whether a call could go out right now on a key that is not benched. */
+export function hasHealthyKey(upstream: string, keys: string[]): boolean {
+  const now = Date.now();
+  return keys.some((key) => !isBenched(keyState(upstream, key), now));
+}
+
+function maskKey(key: string): string {
+  return key.length > 8 ? `…${key.slice(-4)}` : '…';
+}
+
+/** Counters and health of every key used so far, for the /keys endpoint. */
+export function keyUsage(): KeyUsage[] {
+  const now = Date.now();
+  return [...pools].flatMap(([upstream, pool]) =>
+    [...pool.values()].map((state) => ({
+      upstream,
+      key: maskKey(state.key),
+      in_flight: state.inFlight,
+      requests: state.requests,
+      errors: state.errors,
+      rate_limited: state.rateLimited,
+      auth_errors: state.authErrors,
+      benched_until: isBenched(state, now) ? new Date(state.benchedUntil).toISOString() : null,
+      last_used_at: state.lastUsedAt ? new Date(state.lastUsedAt).toISOString() : null,
+    }))
+  );
+}
+
+export function resetKeyUsage(): void {
+  pools.clear();
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { config } from './config';
+import { acquireSlot, registerLimits, resetLimits, RateLimitError } from './limits';
+
+const DEFAULTS = {
+  RATE_LIMIT_RPM: config.RATE_LIMIT_RPM,
+  RATE_LIMIT_TPM: config.RATE_LIMIT_TPM,
+  RATE_LIMIT_CONCURRENCY: config.RATE_LIMIT_CONCURRENCY,
+  GLOBAL_RATE_LIMIT_RPM: config.GLOBAL_RATE_LIMIT_RPM,
+  GLOBAL_RATE_LIMIT_TPM: config.GLOBAL_RATE_LIMIT_TPM,
+  GLOBAL_RATE_LIMIT_CONCURRENCY: config.GLOBAL_RATE_LIMIT_CONCURRENCY,
+  RATE_LIMIT_QUEUE_TIMEOUT_MS: config.RATE_LIMIT_QUEUE_TIMEOUT_MS,
+  RATE_LIMIT_QUEUE_SIZE: config.RATE_LIMIT_QUEUE_SIZE,
+};
+
+describe('rate and concurrency limits', () => {
+  afterEach(() => {
+    resetLimits();
+    Object.assign(config, DEFAULTS);
+  });
+
+  it('queues requests over the concurrency limit and admits them as others finish', async () => {
+    config.RATE_LIMIT_CONCURRENCY = 1;
+    const release = await acquireSlot('ip:a', 10);
+    let admitted = false;
+    const waiting = acquireSlot('ip:a', 10).then((next) => {
+      admitted = true;
+      return next;
+    });
+
+    // Another client is not held up by this one's limit.
+    (await acquireSlot('ip:b', 10))();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(admitted).toBe(false);
+
+    release();
+    (await waiting)();
+    expect(admitted).toBe(true);
+  });
+
+  it('shares the global limit between clients in turn', async () => {
+    config.GLOBAL_RATE_LIMIT_CONCURRENCY = 1;
+    const order: string[] = [];
+    const first = await acquireSlot('ip:agent', 1);
+    // Each request finishes as soon as it is admitted, letting the next one in.
+    const waiting = ['ip:agent', 'ip:agent', 'ip:chat'].map((client) =>
+      acquireSlot(client, 1).then((release) => {
+        order.push(client);
+        release();
+      })
+    );
+
+    first();
+    await Promise.all(waiting);
+    // The chat request does not wait behind the agent's whole backlog.
+    expect(order).toEqual(['ip:agent', 'ip:chat', 'ip:agent']);
+  });
+
+  it('admits higher priority requests first, whichever client sent them', async () => {
+    config.GLOBAL_RATE_LIMIT_CONCURRENCY = 1;
+    const order: string[] = [];
+    const first = await acquireSlot('ip:agent', 1);
+    const waiting = [
+      ['summary', 'ip:agent', 0],
+      ['agent step', 'ip:agent', 1],
+      ['chat', 'ip:editor', 2],
+    ].map(([name, client, priority]) =>
+      acquireSlot(client as string, 1, { priority: priority as number }).then((release) => {
+        order.push(name as string);
+        release();
+      })
+    );
+
+    first();
+    await Promise.all(waiting);
+    expect(order).toEqual(['chat', 'agent step', 'summary']);
+  });
+
+  it('rejects with a retry delay when the wait times out or the queue is full', async () => {
+    config.RATE_LIMIT_RPM = 1;
+    config.RATE_LIMIT_QUEUE_TIMEOUT_MS = 20;
+    config.RATE_LIMIT_QUEUE_SIZE = 1;
+    await acquireSlot('ip:a', 1);
+
+    const timedOut = acquireSlot('ip:a', 1);
+    await expect(acquireSlot('ip:a', 1)).rejects.toThrow(/Too many requests are waiting/);
+    const error = await timedOut.catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBeGreaterThan(50_000);
+  });
+
+  it('counts estimated tokens per minute', async () => {
+    config.RATE_LIMIT_TPM = 100;
+    config.RATE_LIMIT_QUEUE_TIMEOUT_MS = 0;
+    (await acquireSlot('ip:a', 80))();
+    await expect(acquireSlot('ip:a', 30)).rejects.toThrow(RateLimitError);
+    (await acquireSlot('ip:a', 20))();
+  });
+
+  it('answers model calls over the limit with a 429 and Retry-After', async () => {
+    config.RATE_LIMIT_RPM = 1;
+    config.RATE_LIMIT_QUEUE_TIMEOUT_MS = 0;
+    const app = Fastify();
+    registerLimits(app);
+    app.post('/v1/chat/completions', async () => ({ object: 'chat.completion' }));
+    app.post('/api/chat', async () => ({ done: true }));
+    app.get('/api/tags', async () => ({ models: [] }));
+
+    try {
+      expect((await app.inject({ method: 'POST', url: '/v1/chat/completions', payload: { model: 'glm-4.6' } })).statusCode).toBe(200);
+
+      const limited = await app.inject({ method: 'POST', url: '/v1/chat/completions', payload: { model: 'glm-4.6' } });
+      expect(limited.statusCode).toBe(429);
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(50);
+      expect(limited.json().error).toMatchObject({ type: 'rate_limit_error', code: 'rate_limit_exceeded' });
+
+      const ollama = await app.inject({ method: 'POST', url: '/api/chat', payload: { model: 'glm-4.6' } });
+      expect(ollama.statusCode).toBe(429);
+      expect(typeof ollama.json().error).toBe('string');
+
+      expect((await app.inject({ method: 'GET', url: '/api/tags' })).statusCode).toBe(200);
+    } finally {
+      await app.close();
+    }
+  });
+});
@@ -0,0 +1,292 @@
+import { createHash } from 'crypto';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { config } from './config';
+import { requestToken } from './auth';
+import { estimateTokens } from './tokens';
+import { toErrorBody, GatewayError } from './errors';
+import { requestPriority, DEFAULT_PRIORITY } from './priority';
+
+// Endpoints that call a model; discovery and metadata endpoints are never limited.
+const LIMITED_PATHS = new Set([
+  '/v1/chat/completions',
+  '/v1/responses',
+  '/v1/completions',
+  '/v1/embeddings',
+  '/api/chat',
+  '/api/generate',
+  '/api/embed',
+  '/api/embeddings',
+]);
+
+const WINDOW_MS = 60_000;
+const GLOBAL = '*';
+
+interface LimitSettings {
+  rpm: number;
+  tpm: number;
+  concurrency: number;
+}
+
+interface Usage {
+  // Admissions in the last minute, with their estimated tokens
+  recent: Array<{ at: number; tokens: number }>;
+  active: number;
+}
+
+interface Waiter {
+  client: string;
+  tokens: number;
+  priority: number;
+  admit: () => void;
+  reject: (error: RateLimitError) => void;
+}
+
+/** Thrown when a request could not be admitted; `retryAfterMs` is when trying again may work. */
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterMs: number) {
+    super(message);
+  }
+}
+
+const usage = new Map<string, Usage>();
+// Waiting requests by client. Map order is the round-robin order: a client moves to the back once served.
+const queues = new Map<string, Waiter[]>();
+let drainTimer: NodeJS.Timeout | undefined;
+
+const clientLimits = (): LimitSettings => ({
+  rpm: config.RATE_LIMIT_RPM,
+  tpm: config.RATE_LIMIT_TPM,
+  concurrency: config.RATE_LIMIT_CONCURRENCY,
+});
+
+const globalLimits = (): LimitSettings => ({
+  rpm: config.GLOBAL_RATE_LIMIT_RPM,
+  tpm: config.GLOBAL_RATE_LIMIT_TPM,
+  concurrency: config.GLOBAL_RATE_LIMIT_CONCURRENCY,
+});
+
+function usageOf(key: string, now: number): Usage {
+  let entry = usage.get(key);
+  if (!entry) usage.set(key, (entry = { recent: [], active: 0 }));
+  while (entry.recent.length && entry.recent[0].at <= now - WINDOW_MS) entry.recent.shift();
+  return entry;
+}
+
+// 0 (or unset) disables a limit. A request larger than the whole token budget still gets through on an idle minute.
+function fits(entry: Usage, limits: LimitSettings, tokens: number): boolean {
+  if (limits.concurrency > 0 && entry.active >= limits.concurrency) return false;
+  if (limits.rpm > 0 && entry.recent.length >= limits.rpm) return false;
+  if (limits.tpm > 0 && entry.recent.length) {
+    const used = entry.recent.reduce((total, admission) => total + admission.tokens, 0);
+    if (used + tokens > limits.tpm) return false;
+  }
+  return true;
+}
+
+function canAdmit(client: string, tokens: number, now: number): boolean {
+  return fits(usageOf(client, now), clientLimits(), tokens) && fits(usageOf(GLOBAL, now), globalLimits(), tokens);
+}
+
+function take(client: string, tokens: number, now: number): () => void {
+  for (const key of [client, GLOBAL]) {
+    const entry = usageOf(key, now);
+    entry.recent.push({ at: now, tokens });
+    entry.active++;
+  }
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    for (const key of [client, GLOBAL]) {
+      const entry = usage.get(key);
+      if (entry) entry.active = Math.max(0, entry.active - 1);
+    }
+    drain();
+  };
+}
+
+// When the oldest admission counted against `client` (or globally) leaves its one-minute window.
+function nextWindowChange(client: string, now: number): number {
+  const oldest = [usageOf(client, now), usageOf(GLOBAL, now)].map((entry) => entry.recent[0]?.at).filter((at): at is number => at !== undefined);
+  return oldest.length ? Math.max(0, Math.min(...oldest) + WINDOW_MS - now) : 1000;
+}
+
+// A client's most urgent request, the oldest one among equals.
+function firstInLine(waiters: Waiter[]): Waiter {
+  return waiters.reduce((best, waiter) => (waiter.priority > best.priority ? waiter : best));
+}
+
+/**
+ * The waiting request to admit next: the highest priority one that fits, taking clients in
+ * round-robin order among equals. A client held back by its own limits is skipped, so one
+ * busy client cannot hold up the others.
+ */
+function nextWaiter(now: number): Waiter | undefined {
+  let next: Waiter | undefined;
+  for (const waiters of queues.values()) {
+    const candidate = firstInLine(waiters);
+    if (next && candidate.priority <= next.priority) continue;
+    if (canAdmit(candidate.client, candidate.tokens, now)) next = candidate;
+  }
+  return next;
+}
+
+function drain(): void {
+  const now = Date.now();
+  for (let waiter = nextWaiter(now); waiter; waiter = nextWaiter(now)) {
+    const waiters = queues.get(waiter.client) as Waiter[];
+    waiters.splice(waiters.indexOf(waiter), 1);
+    queues.delete(waiter.client);
+    if (waiters.length) queues.set(waiter.client, waiters);
+    waiter.admit();
+  }
+
+  // Rate windows free up with time rather than on release, so look again when the next one does.
+  if (drainTimer) clearTimeout(drainTimer);
+  drainTimer = undefined;
+  if (queues.size) {
+    const wait = Math.min(...[...queues.keys()].map((client) => nextWindowChange(client, now)));
+    drainTimer = setTimeout(drain, Math.max(10, wait));
+    drainTimer.unref();
+  }
+}
+
+function removeWaiter(waiter: Waiter): void {
+  const waiters = queues.get(waiter.client);
+  if (!waiters) return;
+  const index = waiters.indexOf(waiter);
+  if (index >= 0) waiters.splice(index, 1);
+  if (!waiters.length) queues.delete(waiter.client);
+}
+
+export interface SlotOptions {
+  // Aborting takes the request out of the queue.
+  signal?: AbortSignal;
+  // Higher priorities are admitted first (see intentPriority).
+  priority?: number;
+}
+
+/**
+ * Wait for room under the per-client and global limits, queueing by priority and fairly
+ * behind other clients for up to RATE_LIMIT_QUEUE_TIMEOUT_MS. Resolves with the function that
+ * ends the request; rejects with a RateLimitError when the queue is full or the wait times out.
+ */
+export function acquireSlot(client: string, tokens: number, options: SlotOptions = {}): Promise<() => void> {
+  const { signal, priority = DEFAULT_PRIORITY } = options;
+  const now = Date.now();
+  if (!queues.size && canAdmit(client, tokens, now)) return Promise.resolve(take(client, tokens, now));
+
+  const waiting = queues.get(client)?.length ?? 0;
+  if (waiting >= config.RATE_LIMIT_QUEUE_SIZE || config.RATE_LIMIT_QUEUE_TIMEOUT_MS <= 0) {
+    return Promise.reject(new RateLimitError('Too many requests are waiting for this client', nextWindowChange(client, now)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      removeWaiter(waiter);
+      reject(new RateLimitError('Timed out waiting for the rate limit', nextWindowChange(client, Date.now())));
+    }, config.RATE_LIMIT_QUEUE_TIMEOUT_MS);
+    const onAbort = () => {
+      clearTimeout(timer);
+      removeWaiter(waiter);
+      drain();
+      reject(new RateLimitError('Request cancelled while waiting for the rate limit', 0));
+    };
+    const waiter: Waiter = {
+      client,
+      tokens,
+      priority,
+      admit: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(take(client, tokens, Date.now()));
+      },
+      reject,
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queues.set(client, [...(queues.get(client) ?? []), waiter]);
+    drain();
+  });
+}
+
+/** Who a request counts against: its gateway token when inbound auth is on, its IP address otherwise. */
+export function clientKey(request: FastifyRequest): string {
+  const token = config.GATEWAY_TOKENS.length ? requestToken(request) : undefined;
+  return token ? `token:${createHash('sha256').update(token).digest('hex').slice(0, 12)}` : `ip:${request.ip}`;
+}
+
+// Prompt size is all that is known up front; ~4 bytes of request body per token.
+function estimateRequestTokens(body: unknown): number {
+  if (Buffer.isBuffer(body)) return Math.ceil(body.length / 4);
+  if (typeof body === 'string') return estimateTokens(body);
+  return body ? estimateTokens(JSON.stringify(body)) : 0;
+}
+
+export function limitsEnabled(): boolean {
+  return [clientLimits(), globalLimits()].some((limits) => limits.rpm > 0 || limits.tpm > 0 || limits.concurrency > 0);
+}
+
+/**
+ * Hold model calls until they fit the RATE_LIMIT_* (per client) and GLOBAL_RATE_LIMIT_* limits,
+ * answering 429 with Retry-After when they do not in time. Queued requests go in the order of
+ * their Copilot intent's priority. A request counts as concurrent until its response has been
+ * fully sent, streams included.
+ */
+// Slots of admitted requests, freed when the reply closes unless holdSlot took them over first.
+const slots = new WeakMap<FastifyRequest, () => void>();
+
+/**
+ * Keep the request's slot past the end of its reply, for work that outlives it (background
+ * responses). Returns the function that frees the slot; call it when that work settles.
+ */
+export function holdSlot(request: FastifyRequest): () => void {
+  const release = slots.get(request) ?? (() => {});
+  slots.delete(request);
+  return release;
+}
+
+export function registerLimits(app: FastifyInstance<any, any, any, any>) {
+  app.addHook('preHandler', async (request, reply) => {
+    const path = request.url.split('?')[0];
+    if (request.method !== 'POST' || !LIMITED_PATHS.has(path) || !limitsEnabled()) return;
+
+    const client = clientKey(request);
+    const controller = new AbortController();
+    const onClose = () => controller.abort();
+    reply.raw.once('close', onClose);
+    try {
+      const release = await acquireSlot(client, estimateRequestTokens(request.body), {
+        signal: controller.signal,
+        priority: requestPriority(request),
+      });
+      reply.raw.off('close', onClose);
+      slots.set(request, release);
+      reply.raw.once('close', () => holdSlot(request)());
+    } catch (error: any) {
+      reply.raw.off('close', onClose);
+      if (!(error instanceof RateLimitError)) throw error;
+      // The client left while queued; there is no one to answer.
+      if (controller.signal.aborted) return reply.hijack();
+      const retryAfter = Math.max(1, Math.ceil(error.retryAfterMs / 1000));
+      request.log.warn({ client, url: request.url, retryAfter }, `Rate limited: ${error.message}`);
+      const rateLimited: GatewayError = {
+        status: 429,
+        message: `${error.message}; retry after ${retryAfter}s`,
+        type: 'rate_limit_error',
+        code: 'rate_limit_exceeded',
+        param: null,
+      };
+      return reply.code(429).header('Retry-After', String(retryAfter)).send(toErrorBody(path, rateLimited));
+    }
+  });
+}
+
+export function resetLimits(): void {
+  for (const waiters of queues.values()) {
+    for (const waiter of waiters) waiter.reject(new RateLimitError('Rate limits were reset', 0));
+  }
+  queues.clear();
+  usage.clear();
+  if (drainTimer) clearTimeout(drainTimer);
+  drainTimer = undefined;
+}
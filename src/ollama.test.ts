@@ -1,5 +1,18 @@
 import { describe, it, expect, vi } from 'vitest';
-import { chunkText, createNdjsonWriter, endNdjson } from './ollama';
+import {
+  chunkText,
+  createNdjsonWriter,
+  endNdjson,
+  toZhipuMessages,
+  toZhipuParams,
+  toOllamaToolCalls,
+  toOllamaDoneReason,
+  ollamaStats,
+  encodeContext,
+  decodeContext,
+  renderPromptTemplate,
+  toZhipuGenerateMessages,
+} from './ollama';
 import type { FastifyReply } from 'fastify';
 
 describe('ollama utilities', () => {
@@ -11,16 +24,107 @@ describe('ollama utilities', () => {
 
   it('createNdjsonWriter writes ndjson and endNdjson ends the stream', () => {
     const writes: string[] = [];
-    const raw = { write: (s: string) => writes.push(s), end: vi.fn() };
-    const reply = { header: vi.fn(), raw } as unknown as FastifyReply;
+    const raw = { write: (s: string) => writes.push(s), end: vi.fn(), writeHead: vi.fn() };
+    const reply = {
+      header: vi.fn(),
+      statusCode: 200,
+      getHeaders: () => ({ 'content-type': 'application/x-ndjson; charset=utf-8' }),
+      raw,
+    } as unknown as FastifyReply;
 
     const writer = createNdjsonWriter(reply);
     writer({ hello: 'world' });
 
     expect(reply.header).toHaveBeenCalledWith('Content-Type', 'application/x-ndjson; charset=utf-8');
+    expect(raw.writeHead).toHaveBeenCalledWith(200, { 'content-type': 'application/x-ndjson; charset=utf-8' });
     expect(writes[0]).toBe(JSON.stringify({ hello: 'world' }) + '\n');
 
     endNdjson(reply);
     expect(raw.end).toHaveBeenCalled();
   });
+  it('toZhipuMessages wraps images and stringifies tool arguments', () => {
+    const messages = toZhipuMessages([
+      { role: 'user', content: 'What is this?', images: ['iVBORw0KGgo', '/9j/4AAQ'] },
+      { role: 'assistant', content: '', tool_calls: [{ function: { name: 'lookup', arguments: { q: 'cat' } } }] },
+      { role: 'tool', content: '{"ok":true}', tool_name: 'lookup' },
+    ]);
+
+    expect(messages[0].content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo' } },
+      { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,/9j/4AAQ' } },
+    ]);
+    expect(messages[1].tool_calls?.[0].function).toEqual({ name: 'lookup', arguments: '{"q":"cat"}' });
+    expect(messages[1].tool_calls?.[0].id).toMatch(/^call_/);
+    expect(messages[2]).toEqual({ role: 'tool', content: '{"ok":true}', name: 'lookup' });
+  });
+
+  it('toZhipuParams maps supported options and format', () => {
+    expect(toZhipuParams({ temperature: 0.2, top_p: 0.9, num_predict: 128, stop: 'END', num_ctx: 8192, seed: 1 }, 'json')).toEqual({
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 128,
+      stop: ['END'],
+      response_format: { type: 'json_object' },
+    });
+    expect(toZhipuParams(undefined, { type: 'object' })).toEqual({ response_format: { type: 'json_object' } });
+    expect(toZhipuParams({ num_predict: -1 }, undefined)).toEqual({});
+  });
+
+  it('toOllamaToolCalls parses JSON arguments and keeps malformed ones as text', () => {
+    expect(toOllamaToolCalls(undefined)).toBeUndefined();
+    expect(toOllamaToolCalls([
+      { type: 'function', function: { name: 'a', arguments: '{"x":1}' } },
+      { type: 'function', function: { name: 'b', arguments: '{"x":' } },
+      { type: 'function', function: { name: 'c', arguments: '' } },
+    ])).toEqual([
+      { function: { name: 'a', arguments: { x: 1 } } },
+      { function: { name: 'b', arguments: '{"x":' } },
+      { function: { name: 'c', arguments: {} } },
+    ]);
+  });
+
+  it('toOllamaDoneReason and ollamaStats describe the finished generation', () => {
+    expect(toOllamaDoneReason('length')).toBe('length');
+    expect(toOllamaDoneReason('tool_calls')).toBe('stop');
+    expect(toOllamaDoneReason(undefined)).toBe('stop');
+
+    const start = process.hrtime.bigint();
+    const stats = ollamaStats(start, undefined, { prompt_tokens: 7, completion_tokens: 3 });
+    expect(stats.prompt_eval_count).toBe(7);
+    expect(stats.eval_count).toBe(3);
+    expect(stats.load_duration).toBe(0);
+    expect(stats.total_duration).toBeGreaterThanOrEqual(stats.prompt_eval_duration);
+  });
+  it('encodeContext round-trips through decodeContext with a short handle and rejects foreign contexts', () => {
+    const history = [{ role: 'user', content: 'héllo 👋'.repeat(100) }, { role: 'assistant', content: 'hi' }];
+    const context = encodeContext(history);
+    expect(context).toHaveLength(4);
+    expect(decodeContext(context)).toEqual(history);
+    expect(decodeContext([128000, 9906, 1917])).toEqual([]);
+    expect(decodeContext([1, 2, 3, 4])).toEqual([]);
+    expect(decodeContext(undefined)).toEqual([]);
+  });
+
+  it('renderPromptTemplate fills variables and conditional blocks', () => {
+    const template = '{{ if .System }}<|system|>{{ .System }}{{ end }}<|user|>{{ .Prompt }}<|assistant|>';
+    expect(renderPromptTemplate(template, { System: 'sys', Prompt: 'hi' })).toBe('<|system|>sys<|user|>hi<|assistant|>');
+    expect(renderPromptTemplate(template, { Prompt: 'hi' })).toBe('<|user|>hi<|assistant|>');
+  });
+
+  it('toZhipuGenerateMessages chooses raw, template, fill-in-the-middle or chat form', () => {
+    expect(toZhipuGenerateMessages({ prompt: 'p', system: 's', raw: true })).toEqual([{ role: 'user', content: 'p' }]);
+    expect(toZhipuGenerateMessages({ prompt: 'p', system: 's', template: '{{ .System }}|{{ .Prompt }}' })).toEqual([
+      { role: 'user', content: 's|p' },
+    ]);
+
+    const fim = toZhipuGenerateMessages({ prompt: 'const x = ', suffix: ';', system: 'TypeScript only.' });
+    expect(fim[0].content).toMatch(/^TypeScript only\./);
+    expect(fim[1].content).toContain('const x = ');
+
+    expect(toZhipuGenerateMessages({ prompt: 'p', system: 's', images: ['iVBOR'] })).toEqual([
+      { role: 'system', content: 's' },
+      { role: 'user', content: [{ type: 'text', text: 'p' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBOR' } }] },
+    ]);
+  });
 });
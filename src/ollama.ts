@@ -1,7 +1,49 @@
 import type { FastifyReply } from 'fastify';
+import { randomBytes, randomUUID } from 'crypto';
+import type { ChatCompletionToolCall, ChatMessageContentPart, ZhipuChatMessage, ZhipuChatRequest } from './zhipu';
+import { buildFimMessages } from './fim';
+import { getStoredContext, saveContext, ContextMessage } from './store';
+
+type AnyObj = Record<string, any>;
+
+// ---- Ollama request/response shapes (only the fields the gateway understands) ----
+export interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, any> | string };
+}
+
+export interface OllamaChatMessage {
+  role: string;
+  content?: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+  thinking?: string;
+  [key: string]: any;
+}
+
+export interface OllamaGenerateRequest {
+  prompt?: string;
+  system?: string;
+  suffix?: string;
+  raw?: boolean;
+  template?: string;
+  context?: number[];
+  images?: string[];
+  [key: string]: any;
+}
+
+export interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number;
+  stop?: string[] | string;
+  [key: string]: any;
+}
 
 export function createNdjsonWriter(reply: FastifyReply) {
   reply.header('Content-Type', 'application/x-ndjson; charset=utf-8');
+  // Frames are written straight to the raw socket, so flush the headers collected on the reply first.
+  reply.raw.writeHead(reply.statusCode, reply.getHeaders() as Record<string, any>);
   // Make sure to disable compression interference for streams if any proxy exists.
   return (obj: unknown) => {
     reply.raw.write(JSON.stringify(obj) + '\n');
@@ -19,3 +61,170 @@ export function chunkText(s: string, size = 1024): string[] {
   }
   return out.length ? out : [''];
 }
+
+/** Ollama sends bare base64 images; Zhipu expects an image_url part, so wrap them as data URLs. */
+function toImageUrl(image: string): string {
+  if (/^(data:|https?:\/\/)/.test(image)) return image;
+  const mime = image.startsWith('/9j/') ? 'image/jpeg'
+    : image.startsWith('R0lGOD') ? 'image/gif'
+    : image.startsWith('UklGR') ? 'image/webp'
+    : 'image/png';
+  return `data:${mime};base64,${image}`;
+}
+
+/** Convert Ollama chat messages (images, object tool arguments) into Zhipu's OpenAI-style messages. */
+export function toZhipuMessages(messages: OllamaChatMessage[]): ZhipuChatMessage[] {
+  return messages.map((msg) => {
+    const out: ZhipuChatMessage = { role: typeof msg?.role === 'string' ? msg.role : 'user' };
+    const text = typeof msg?.content === 'string' ? msg.content : '';
+
+    if (Array.isArray(msg?.images) && msg.images.length) {
+      const parts: ChatMessageContentPart[] = [];
+      if (text) parts.push({ type: 'text', text });
+      for (const image of msg.images) {
+        parts.push({ type: 'image_url', image_url: { url: toImageUrl(image) } });
+      }
+      out.content = parts;
+    } else {
+      out.content = text;
+    }
+
+    if (Array.isArray(msg?.tool_calls) && msg.tool_calls.length) {
+      out.tool_calls = msg.tool_calls.map((call: AnyObj) => ({
+        id: call.id ?? `call_${randomUUID()}`,
+        type: 'function' as const,
+        function: {
+          name: call.function?.name ?? '',
+          arguments: typeof call.function?.arguments === 'string'
+            ? call.function.arguments
+            : JSON.stringify(call.function?.arguments ?? {}),
+        },
+      }));
+    }
+
+    if (msg?.role === 'tool') {
+      if (msg.tool_call_id) out.tool_call_id = msg.tool_call_id;
+      if (msg.tool_name) out.name = msg.tool_name;
+    }
+
+    return out;
+  });
+}
+
+/**
+ * Ollama's `context` is an opaque list of token ids that clients hand back to continue a
+ * generation. Zhipu exposes no tokenizer, so the gateway keeps the text conversation in
+ * memory and hands out a random handle of four 32-bit numbers instead, which stays the same
+ * size however long the conversation gets.
+ */
+export function encodeContext(messages: ContextMessage[]): number[] {
+  const bytes = randomBytes(16);
+  const handle = [0, 4, 8, 12].map((offset) => bytes.readUInt32BE(offset));
+  saveContext(handle.join('.'), messages);
+  return handle;
+}
+
+/** The conversation behind a context from `encodeContext`; anything else (e.g. real token ids, or a forgotten handle) yields no history. */
+export function decodeContext(context: unknown): ContextMessage[] {
+  if (!Array.isArray(context) || context.length !== 4 || !context.every((n) => Number.isInteger(n))) return [];
+  return getStoredContext(context.join('.')) ?? [];
+}
+
+/**
+ * Render the subset of Ollama's Go template syntax that prompt templates rely on:
+ * `{{ .System }}`, `{{ .Prompt }}`, `{{ .Suffix }}` and non-nested `{{ if .X }}...{{ end }}`.
+ */
+export function renderPromptTemplate(template: string, vars: Record<string, string | undefined>): string {
+  const value = (name: string) => vars[name] ?? '';
+  return template
+    .replace(/\{\{-?\s*if\s+\.(\w+)\s*-?\}\}([\s\S]*?)\{\{-?\s*end\s*-?\}\}/g, (_, name, body) => (value(name) ? body : ''))
+    .replace(/\{\{-?\s*\.(\w+)\s*-?\}\}/g, (_, name) => value(name));
+}
+
+/**
+ * Turn an /api/generate request into chat messages. `raw` and `template` prompts are sent
+ * verbatim as a single user turn, a `suffix` becomes a fill-in-the-middle request, and
+ * otherwise the optional system prompt and decoded `context` precede the prompt.
+ */
+export function toZhipuGenerateMessages(req: OllamaGenerateRequest): ZhipuChatMessage[] {
+  const prompt = typeof req.prompt === 'string' ? req.prompt : '';
+
+  if (req.raw) {
+    return [{ role: 'user', content: prompt }];
+  }
+  if (typeof req.template === 'string' && req.template) {
+    return [{ role: 'user', content: renderPromptTemplate(req.template, { System: req.system, Prompt: prompt, Suffix: req.suffix }) }];
+  }
+  if (typeof req.suffix === 'string' && req.suffix) {
+    const messages = buildFimMessages(prompt, req.suffix);
+    if (req.system) messages[0].content = `${req.system}\n\n${messages[0].content}`;
+    return messages;
+  }
+
+  const messages: ZhipuChatMessage[] = [];
+  if (req.system) messages.push({ role: 'system', content: req.system });
+  messages.push(...decodeContext(req.context));
+  messages.push(...toZhipuMessages([{ role: 'user', content: prompt, images: req.images }]));
+  return messages;
+}
+
+/**
+ * Map Ollama's `options` and `format` onto Zhipu request parameters. Options without
+ * a Zhipu equivalent (num_ctx, seed, top_k, ...) are dropped.
+ */
+export function toZhipuParams(options: OllamaOptions | undefined, format: unknown): Partial<ZhipuChatRequest> {
+  const params: Partial<ZhipuChatRequest> = {};
+  if (options && typeof options === 'object') {
+    if (typeof options.temperature === 'number') params.temperature = options.temperature;
+    if (typeof options.top_p === 'number') params.top_p = options.top_p;
+    if (typeof options.num_predict === 'number' && options.num_predict > 0) params.max_tokens = options.num_predict;
+    if (options.stop !== undefined) params.stop = Array.isArray(options.stop) ? options.stop : [options.stop];
+  }
+  // Zhipu only knows JSON mode, so a JSON schema degrades to plain JSON output.
+  if (format === 'json' || (format && typeof format === 'object')) {
+    params.response_format = { type: 'json_object' };
+  }
+  return params;
+}
+
+/** Ollama carries tool arguments as objects rather than JSON strings. */
+export function toOllamaToolCalls(toolCalls: ChatCompletionToolCall[] | undefined): OllamaToolCall[] | undefined {
+  if (!Array.isArray(toolCalls) || !toolCalls.length) return undefined;
+  return toolCalls.map((call) => {
+    let args: Record<string, any> | string = call.function?.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = args.trim() ? JSON.parse(args) : {};
+      } catch {
+        // Leave malformed arguments as the raw string rather than dropping them.
+      }
+    }
+    return { function: { name: call.function?.name ?? '', arguments: args } };
+  });
+}
+
+/** Ollama only distinguishes a natural stop from hitting the token limit. */
+export function toOllamaDoneReason(finishReason: string | null | undefined): string {
+  return finishReason === 'length' ? 'length' : 'stop';
+}
+
+/**
+ * Builds the timing and token fields Ollama appends to its final frame. Zhipu reports
+ * no per-phase timings, so prompt evaluation is measured up to the first output token.
+ */
+export function ollamaStats(
+  startedAt: bigint,
+  firstTokenAt: bigint | undefined,
+  usage: { prompt_tokens?: number; completion_tokens?: number } | undefined,
+) {
+  const end = process.hrtime.bigint();
+  const firstToken = firstTokenAt ?? end;
+  return {
+    total_duration: Number(end - startedAt),
+    load_duration: 0,
+    prompt_eval_count: usage?.prompt_tokens ?? 0,
+    prompt_eval_duration: Number(firstToken - startedAt),
+    eval_count: usage?.completion_tokens ?? 0,
+    eval_duration: Number(end - firstToken),
+  };
+}
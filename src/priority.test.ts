@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { config, parseModelMap } from './config';
+import { intentPriority } from './priority';
+
+describe('intent priorities', () => {
+  afterEach(() => {
+    config.INTENT_PRIORITIES = {};
+  });
+
+  it('puts chat and inline edits ahead of background work', () => {
+    expect(intentPriority('conversation-panel')).toBe(2);
+    expect(intentPriority('conversation-inline')).toBe(2);
+    expect(intentPriority('conversation-agent')).toBe(1);
+    expect(intentPriority(undefined)).toBe(1);
+    expect(intentPriority('chat-summarization')).toBe(0);
+    expect(intentPriority('copilot-commit-message')).toBe(0);
+    expect(intentPriority('chat-title')).toBe(0);
+  });
+
+  it('lets INTENT_PRIORITIES override the defaults by name or pattern', () => {
+    config.INTENT_PRIORITIES = parseModelMap('conversation-*=low,*review*=high,chat-title=5,conversation-edits=urgent');
+
+    expect(intentPriority('conversation-panel')).toBe(0);
+    expect(intentPriority('code-review')).toBe(2);
+    expect(intentPriority('chat-title')).toBe(5);
+    // Unknown priority names fall back to the built-in table
+    expect(intentPriority('conversation-edits')).toBe(2);
+  });
+});
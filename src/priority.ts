@@ -0,0 +1,53 @@
+import type { FastifyRequest } from 'fastify';
+import { config } from './config';
+import { patternToRegExp } from './routing';
+
+const PRIORITY_NAMES: Record<string, number> = { low: 0, normal: 1, high: 2 };
+export const DEFAULT_PRIORITY = PRIORITY_NAMES.normal;
+
+/**
+ * Priority of Copilot's intents (`X-Interaction-Type`, else `OpenAI-Intent`) when requests queue
+ * up: chat and inline edits first, background jobs (summaries, commit messages, titles) last.
+ * INTENT_PRIORITIES entries come before these, so they can override any of them.
+ */
+const DEFAULT_INTENT_PRIORITIES: Record<string, string> = {
+  'conversation-panel': 'high',
+  'conversation-inline': 'high',
+  'conversation-edits': 'high',
+  'copilot-chat': 'high',
+  '*inline*': 'high',
+  '*summar*': 'low',
+  '*commit*': 'low',
+  '*title*': 'low',
+  '*background*': 'low',
+};
+
+function toPriority(value: string): number | undefined {
+  const priority = PRIORITY_NAMES[value.toLowerCase()] ?? Number(value);
+  return Number.isFinite(priority) ? priority : undefined;
+}
+
+// Exact names first, then "*" patterns in table order.
+function lookup(table: Record<string, string>, intent: string): number | undefined {
+  const entries = Object.entries(table);
+  const match =
+    entries.find(([pattern]) => !pattern.includes('*') && pattern.toLowerCase() === intent.toLowerCase()) ??
+    entries.find(([pattern]) => pattern.includes('*') && patternToRegExp(pattern).test(intent));
+  return match ? toPriority(match[1]) : undefined;
+}
+
+/** Queue priority for an intent; higher runs sooner. */
+export function intentPriority(intent: string | undefined): number {
+  if (!intent) return DEFAULT_PRIORITY;
+  return lookup(config.INTENT_PRIORITIES, intent) ?? lookup(DEFAULT_INTENT_PRIORITIES, intent) ?? DEFAULT_PRIORITY;
+}
+
+/** The Copilot feature a request comes from: `X-Interaction-Type`, else `OpenAI-Intent`. */
+export function requestIntent(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-interaction-type'] ?? request.headers['openai-intent'];
+  return typeof header === 'string' && header.trim() ? header.trim() : undefined;
+}
+
+export function requestPriority(request: FastifyRequest): number {
+  return intentPriority(requestIntent(request));
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { config } from './config';
+import { createOpenAICompatibleProvider, discoverProviderModels, getProvider } from './providers';
+import { catalogModels, clearProviderModels } from './catalog';
+
+vi.mock('axios');
+vi.mock('./logger', () => ({
+  logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const settings = { name: 'deepseek', baseUrl: 'https://api.deepseek.com/v1', apiKey: 'sk-deepseek' };
+const authHeaders = { 'Content-Type': 'application/json', Authorization: 'Bearer sk-deepseek' };
+
+describe('providers', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+    vi.mocked(axios.get).mockReset();
+  });
+
+  afterEach(() => {
+    config.PROVIDERS = [];
+    clearProviderModels();
+  });
+
+  it('sends OpenAI-compatible providers their own base URL and key', async () => {
+    const provider = createOpenAICompatibleProvider(settings);
+    vi.mocked(axios.post)
+      .mockResolvedValueOnce({ data: { id: 'x', choices: [] }, status: 200 } as unknown)
+      .mockResolvedValueOnce({ data: 'stream', status: 200 } as unknown)
+      .mockResolvedValueOnce({ data: { data: [] }, status: 200 } as unknown);
+    const req = { model: 'deepseek-chat', messages: [{ role: 'user', content: 'hi' }] };
+
+    await provider.chatOnce(req);
+    await provider.chatStream(req);
+    await provider.embed({ model: 'deepseek-embed', input: 'hi' });
+
+    expect(vi.mocked(axios.post).mock.calls).toEqual([
+      ['https://api.deepseek.com/v1/chat/completions', { ...req, stream: false }, { headers: authHeaders }],
+      ['https://api.deepseek.com/v1/chat/completions', { ...req, stream: true }, { headers: authHeaders, responseType: 'stream' }],
+      ['https://api.deepseek.com/v1/embeddings', { model: 'deepseek-embed', input: 'hi' }, { headers: authHeaders }],
+    ]);
+  });
+
+  it('lists configured models, or asks the upstream for them', async () => {
+    expect(await createOpenAICompatibleProvider({ ...settings, models: ['deepseek-chat'] }).listModels()).toEqual(['deepseek-chat']);
+    expect(vi.mocked(axios.get)).not.toHaveBeenCalled();
+
+    vi.mocked(axios.get).mockResolvedValueOnce({ data: { object: 'list', data: [{ id: 'deepseek-chat' }, { id: 'deepseek-reasoner' }] } } as unknown);
+    expect(await createOpenAICompatibleProvider(settings).listModels()).toEqual(['deepseek-chat', 'deepseek-reasoner']);
+    expect(vi.mocked(axios.get)).toHaveBeenCalledWith('https://api.deepseek.com/v1/models', { headers: authHeaders });
+  });
+
+  it('keeps Zhipu built in and rejects unknown providers', async () => {
+    expect(getProvider().name).toBe('zhipu');
+    expect(await getProvider('zhipu').listModels()).toContain('glm-4.6');
+    expect(() => getProvider('missing')).toThrow(/Unknown provider 'missing'/);
+  });
+
+  it('adds discovered provider models to the catalog, skipping providers that fail', async () => {
+    config.PROVIDERS = [
+      { ...settings, models: ['deepseek-chat'] },
+      { name: 'local', baseUrl: 'http://127.0.0.1:8080/v1', apiKey: '' },
+    ];
+    vi.mocked(axios.get).mockRejectedValue(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+    const log = { info: vi.fn(), warn: vi.fn() };
+
+    await discoverProviderModels(log as any);
+
+    const deepseek = catalogModels().find((m) => m.provider === 'deepseek');
+    expect(deepseek).toMatchObject({ upstream: 'deepseek-chat', entry: { name: 'deepseek-chat:latest', model: 'deepseek-chat:latest' } });
+    expect(catalogModels().some((m) => m.provider === 'local')).toBe(false);
+    expect(log.warn).toHaveBeenCalledWith(expect.objectContaining({ provider: 'local' }), 'Could not list provider models');
+  });
+
+  it('gives up on a provider that does not answer model discovery in time', async () => {
+    const timeout = config.PROVIDER_DISCOVERY_TIMEOUT_MS;
+    config.PROVIDER_DISCOVERY_TIMEOUT_MS = 20;
+    config.PROVIDERS = [{ name: 'silent', baseUrl: 'http://10.255.255.1/v1', apiKey: '' }];
+    // Never answers, like a host that drops packets; only the abort signal ends the call.
+    vi.mocked(axios.get).mockImplementation((_url, options: any) =>
+      new Promise((_resolve, reject) => options.signal.addEventListener('abort', () => reject(new Error('canceled'))))
+    );
+    const log = { info: vi.fn(), warn: vi.fn() };
+
+    try {
+      await discoverProviderModels(log as any);
+    } finally {
+      config.PROVIDER_DISCOVERY_TIMEOUT_MS = timeout;
+    }
+
+    expect(vi.mocked(axios.get)).toHaveBeenCalledTimes(1);
+    expect(log.warn).toHaveBeenCalledWith(expect.objectContaining({ provider: 'silent' }), 'Could not list provider models');
+  });
+});
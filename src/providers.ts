@@ -0,0 +1,85 @@
+import type { AxiosResponse } from 'axios';
+import type { FastifyBaseLogger } from 'fastify';
+import { config, ProviderConfig, ZHIPU_PROVIDER } from './config';
+import {
+  zhipuChatOnce,
+  zhipuChatStream,
+  zhipuEmbed,
+  normalizeModelName,
+  ZhipuCallOptions,
+  ZhipuChatNonStreamResp,
+  ZhipuChatRequest,
+  ZhipuEmbeddingRequest,
+  ZhipuEmbeddingResp,
+} from './zhipu';
+import { upstreamChatOnce, upstreamChatStream, upstreamEmbed, upstreamListModels } from './upstream';
+import { BUILT_IN_MODELS, setProviderModels } from './catalog';
+
+/** An upstream API the gateway can send requests to. Requests and responses use the OpenAI shapes. */
+export interface Provider {
+  name: string;
+  chatOnce(req: ZhipuChatRequest, options?: ZhipuCallOptions): Promise<ZhipuChatNonStreamResp>;
+  // Resolves once the upstream has accepted the request; `data` is the SSE byte stream.
+  chatStream(req: ZhipuChatRequest, options?: ZhipuCallOptions): Promise<AxiosResponse<any>>;
+  embed(req: ZhipuEmbeddingRequest, options?: ZhipuCallOptions): Promise<ZhipuEmbeddingResp>;
+  // Upstream model names the provider serves.
+  listModels(options?: ZhipuCallOptions): Promise<string[]>;
+}
+
+const zhipuProvider: Provider = {
+  name: ZHIPU_PROVIDER,
+  chatOnce: (req, options) => zhipuChatOnce(req, options),
+  chatStream: (req, options) => zhipuChatStream(req, options),
+  embed: (req, options) => zhipuEmbed(req, options),
+  // Zhipu has no model listing endpoint; models.json describes what it serves.
+  listModels: async () =>
+    BUILT_IN_MODELS.filter((entry) => (entry.provider ?? ZHIPU_PROVIDER) === ZHIPU_PROVIDER).map((entry) => normalizeModelName(entry.model)),
+};
+
+/** A provider for any OpenAI-compatible server: DeepSeek, Moonshot, a llama.cpp server, vLLM, ... */
+export function createOpenAICompatibleProvider(settings: ProviderConfig): Provider {
+  const endpoint = { label: settings.name, baseUrl: settings.baseUrl, apiKey: settings.apiKey };
+  return {
+    name: settings.name,
+    chatOnce: (req, options) => upstreamChatOnce(endpoint, req, options),
+    chatStream: (req, options) => upstreamChatStream(endpoint, req, options),
+    embed: (req, options) => upstreamEmbed(endpoint, req, options),
+    listModels: async (options) => settings.models ?? upstreamListModels(endpoint, options),
+  };
+}
+
+const providers = new Map<string, Provider>();
+
+/** The provider registered under `name`; Zhipu is always there, the others come from PROVIDERS. */
+export function getProvider(name: string = ZHIPU_PROVIDER): Provider {
+  if (name === ZHIPU_PROVIDER) return zhipuProvider;
+  let provider = providers.get(name);
+  if (!provider) {
+    const settings = config.PROVIDERS.find((p) => p.name === name);
+    if (!settings) throw new Error(`Unknown provider '${name}'`);
+    provider = createOpenAICompatibleProvider(settings);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Fill the model catalog with what each PROVIDERS upstream serves. A provider that cannot
+ * be reached within PROVIDER_DISCOVERY_TIMEOUT_MS is logged and left without models rather
+ * than stopping (or stalling) the gateway.
+ */
+export async function discoverProviderModels(log: FastifyBaseLogger): Promise<void> {
+  providers.clear();
+  await Promise.all(
+    config.PROVIDERS.map(async (settings) => {
+      try {
+        const models = await getProvider(settings.name).listModels({ signal: AbortSignal.timeout(config.PROVIDER_DISCOVERY_TIMEOUT_MS) });
+        setProviderModels(settings.name, models);
+        log.info({ provider: settings.name, models: models.length }, 'Loaded provider models');
+      } catch (error: any) {
+        setProviderModels(settings.name, []);
+        log.warn({ provider: settings.name, err: error?.message ?? String(error) }, 'Could not list provider models');
+      }
+    })
+  );
+}
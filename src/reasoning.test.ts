@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyReasoningMode,
+  createReasoningStreamer,
+  resolveReasoningMode,
+  resolveThinking,
+  thinkingFromOllamaThink,
+  thinkingFromReasoningEffort,
+} from './reasoning';
+
+vi.mock('./config', () => ({
+  ZHIPU_PROVIDER: 'zhipu',
+  config: {
+    REASONING_MODE: 'separate',
+    REASONING_MODE_BY_MODEL: { 'glm-4.5-air': 'strip' },
+    THINKING_BY_MODEL: { 'glm-4.5-air': 'disabled', 'glm-4.6': 'bogus' },
+    THINKING_MODELS: ['deepseek-*'],
+  },
+}));
+
+describe('reasoning modes', () => {
+  it('resolves the request mode, then the per-model mode, then the default', () => {
+    expect(resolveReasoningMode('glm-4.5-air', 'think')).toBe('think');
+    expect(resolveReasoningMode('glm-4.5-air', 'bogus')).toBe('strip');
+    expect(resolveReasoningMode('glm-4.6')).toBe('separate');
+  });
+
+  it('shapes complete replies', () => {
+    expect(applyReasoningMode('42', 'Let me add.', 'separate')).toEqual({ content: '42', reasoning_content: 'Let me add.' });
+    expect(applyReasoningMode('42', 'Let me add.', 'think')).toEqual({ content: '<think>\nLet me add.\n</think>\n\n42' });
+    expect(applyReasoningMode('42', 'Let me add.', 'strip')).toEqual({ content: '42' });
+    expect(applyReasoningMode('42', undefined, 'think')).toEqual({ content: '42' });
+  });
+
+  it('wraps streamed reasoning in a single think block', () => {
+    const streamer = createReasoningStreamer('think');
+    const text = [
+      streamer.delta('Let me ', undefined),
+      streamer.delta('add.', ''),
+      streamer.delta(undefined, '4'),
+      streamer.delta(undefined, '2'),
+    ].map((d) => d.content ?? '').join('');
+
+    expect(text).toBe('<think>\nLet me add.\n</think>\n\n42');
+    expect(streamer.finish()).toBeUndefined();
+  });
+
+  it('closes an open think block at the end of the stream', () => {
+    const streamer = createReasoningStreamer('think');
+    streamer.delta('Only thoughts', undefined);
+    expect(streamer.finish()).toBe('\n</think>\n\n');
+  });
+
+  it('forwards or drops streamed reasoning in separate and strip modes', () => {
+    expect(createReasoningStreamer('separate').delta('hmm', 'ok')).toEqual({ reasoning_content: 'hmm', content: 'ok' });
+    expect(createReasoningStreamer('strip').delta('hmm', 'ok')).toEqual({ content: 'ok' });
+  });
+
+  it('maps reasoning_effort and Ollama think onto thinking types', () => {
+    expect(thinkingFromReasoningEffort('high')).toBe('enabled');
+    expect(thinkingFromReasoningEffort('minimal')).toBe('disabled');
+    expect(thinkingFromReasoningEffort(undefined)).toBeUndefined();
+    expect(thinkingFromOllamaThink(true)).toBe('enabled');
+    expect(thinkingFromOllamaThink(false)).toBe('disabled');
+    expect(thinkingFromOllamaThink('low')).toBe('enabled');
+  });
+
+  it('resolves thinking from the request, then the per-model default, only for hybrid reasoning models', () => {
+    expect(resolveThinking('glm-4.5-air', undefined)).toEqual({ type: 'disabled' });
+    expect(resolveThinking('glm-4.5-air', 'enabled')).toEqual({ type: 'enabled' });
+    expect(resolveThinking('glm-4.6', undefined)).toBeUndefined();
+    expect(resolveThinking('glm-4', 'enabled')).toBeUndefined();
+    // Marked in models.json, or matched by THINKING_MODELS
+    expect(resolveThinking('glm-4.7', 'enabled')).toEqual({ type: 'enabled' });
+    expect(resolveThinking('deepseek-r1', 'enabled')).toEqual({ type: 'enabled' });
+  });
+});
@@ -0,0 +1,112 @@
+import { config } from './config';
+import { findCatalogModel } from './catalog';
+import { patternToRegExp } from './routing';
+
+/**
+ * How GLM's `reasoning_content` is passed on to chat clients:
+ * - `separate`: as its own `reasoning_content` field next to `content`
+ * - `think`: folded into `content` inside `<think>…</think>` tags
+ * - `strip`: dropped
+ */
+export type ReasoningMode = 'separate' | 'think' | 'strip';
+
+const REASONING_MODES: ReasoningMode[] = ['separate', 'think', 'strip'];
+
+export function isReasoningMode(value: unknown): value is ReasoningMode {
+  return typeof value === 'string' && (REASONING_MODES as string[]).includes(value);
+}
+
+/** The request's mode wins, then the model's configured mode, then the gateway default. */
+export function resolveReasoningMode(model: string, requested?: unknown): ReasoningMode {
+  for (const candidate of [requested, config.REASONING_MODE_BY_MODEL[model], config.REASONING_MODE]) {
+    if (isReasoningMode(candidate)) return candidate;
+  }
+  return 'separate';
+}
+
+/** Shape a complete reply's text and reasoning for `mode`. */
+export function applyReasoningMode(
+  content: string,
+  reasoning: string | undefined,
+  mode: ReasoningMode
+): { content: string; reasoning_content?: string } {
+  if (!reasoning || mode === 'strip') return { content };
+  if (mode === 'think') return { content: `<think>\n${reasoning}\n</think>\n\n${content}` };
+  return { content, reasoning_content: reasoning };
+}
+
+/**
+ * Streaming counterpart of `applyReasoningMode`. `delta` maps one upstream delta to the
+ * fields to send; `finish` returns the closing `</think>` if reasoning was never followed
+ * by any content.
+ */
+export function createReasoningStreamer(mode: ReasoningMode) {
+  let thinkOpen = false;
+
+  return {
+    delta(reasoning: unknown, content: unknown): { content?: string; reasoning_content?: string } {
+      const out: { content?: string; reasoning_content?: string } = {};
+      const text = typeof content === 'string' ? content : '';
+      if (typeof reasoning === 'string' && reasoning) {
+        if (mode === 'separate') {
+          out.reasoning_content = reasoning;
+        } else if (mode === 'think') {
+          out.content = thinkOpen ? reasoning : `<think>\n${reasoning}`;
+          thinkOpen = true;
+        }
+      }
+      if (text) {
+        if (thinkOpen) {
+          out.content = `${out.content ?? ''}\n</think>\n\n${text}`;
+          thinkOpen = false;
+        } else {
+          out.content = `${out.content ?? ''}${text}`;
+        }
+      }
+      return out;
+    },
+    finish(): string | undefined {
+      if (!thinkOpen) return undefined;
+      thinkOpen = false;
+      return '\n</think>\n\n';
+    },
+  };
+}
+
+export type ThinkingType = 'enabled' | 'disabled';
+
+/**
+ * Whether upstream `model` has hybrid reasoning and so accepts Zhipu's `thinking` parameter:
+ * its models.json entry says so (`"thinking": true`), or it matches a THINKING_MODELS pattern.
+ */
+export function supportsThinking(model: string): boolean {
+  if (findCatalogModel(model, 'chat')?.entry.thinking === true) return true;
+  return config.THINKING_MODELS.some((pattern) => patternToRegExp(pattern).test(model));
+}
+
+function isThinkingType(value: unknown): value is ThinkingType {
+  return value === 'enabled' || value === 'disabled';
+}
+
+/** OpenAI `reasoning_effort` (or Responses `reasoning.effort`): 'none'/'minimal' turn thinking off, any other effort on. */
+export function thinkingFromReasoningEffort(effort: unknown): ThinkingType | undefined {
+  if (typeof effort !== 'string' || !effort) return undefined;
+  return effort === 'none' || effort === 'minimal' ? 'disabled' : 'enabled';
+}
+
+/** Ollama `think`: a boolean, or an effort level ('low' | 'medium' | 'high') on newer clients. */
+export function thinkingFromOllamaThink(think: unknown): ThinkingType | undefined {
+  if (typeof think === 'boolean') return think ? 'enabled' : 'disabled';
+  return thinkingFromReasoningEffort(think);
+}
+
+/**
+ * Zhipu `thinking` parameter for `model`: the client's choice, else the model's
+ * configured default. Undefined leaves it out, e.g. for models without hybrid reasoning.
+ */
+export function resolveThinking(model: string, requested: ThinkingType | undefined): { type: ThinkingType } | undefined {
+  if (!supportsThinking(model)) return undefined;
+  const configured = config.THINKING_BY_MODEL[model];
+  const type = requested ?? (isThinkingType(configured) ? configured : undefined);
+  return type ? { type } : undefined;
+}
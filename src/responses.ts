@@ -0,0 +1,342 @@
+import { randomUUID } from 'crypto';
+import type { ChatMessageContentPart, ZhipuChatMessage, ZhipuChatNonStreamResp, ZhipuChatRequest } from './zhipu';
+
+type AnyObj = Record<string, any>;
+
+// ---- OpenAI Responses API shapes (only the fields the gateway produces) ----
+export interface ResponseOutputText {
+  type: 'output_text';
+  text: string;
+  annotations: unknown[];
+}
+
+export type ResponseOutputItem =
+  | { type: 'message'; id: string; status: string; role: 'assistant'; content: ResponseOutputText[] }
+  | { type: 'function_call'; id: string; status: string; call_id: string; name: string; arguments: string }
+  | { type: 'reasoning'; id: string; status?: string; summary: unknown[]; content: Array<{ type: 'reasoning_text'; text: string }> };
+
+export interface ResponseUsage {
+  input_tokens: number;
+  input_tokens_details: { cached_tokens: number };
+  output_tokens: number;
+  output_tokens_details: { reasoning_tokens: number };
+  total_tokens: number;
+}
+
+export interface ResponseObject {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'completed' | 'incomplete' | 'in_progress' | 'failed' | 'queued' | 'cancelled';
+  error: { code: string; message: string } | null;
+  incomplete_details: { reason: string } | null;
+  model: string;
+  output: ResponseOutputItem[];
+  usage: ResponseUsage | null;
+  [key: string]: any;
+}
+
+export type ResponseStreamEvent = { type: string; [key: string]: any };
+
+export function newItemId(prefix: 'resp' | 'msg' | 'fc' | 'rs'): string {
+  return `${prefix}_${randomUUID().replace(/-/g, '')}`;
+}
+
+/** Convert Responses input content (a string or typed parts) into chat message content. */
+function toChatContent(content: unknown): string | ChatMessageContentPart[] {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+
+  const parts: ChatMessageContentPart[] = [];
+  for (const part of content) {
+    if (!part || typeof part !== 'object') continue;
+    if (part.type === 'input_text' || part.type === 'output_text' || part.type === 'text') {
+      parts.push({ type: 'text', text: String(part.text ?? '') });
+    } else if (part.type === 'input_image') {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+      if (url) parts.push({ type: 'image_url', image_url: { url } });
+    } else if (part.type === 'refusal') {
+      parts.push({ type: 'text', text: String(part.refusal ?? '') });
+    }
+  }
+  // Plain text-only content is sent as a string, which every GLM model accepts.
+  return parts.every((p) => p.type === 'text') ? parts.map((p) => p.text).join('') : parts;
+}
+
+/**
+ * Flatten Responses `input` (or stored `output`) items into Zhipu chat messages.
+ * Consecutive `function_call` items become one assistant turn with parallel tool calls,
+ * and each `function_call_output` becomes a `tool` message. Reasoning and item
+ * references carry nothing GLM can use and are skipped.
+ */
+export function toZhipuMessagesFromInput(input: unknown): ZhipuChatMessage[] {
+  const messages: ZhipuChatMessage[] = [];
+  const items: AnyObj[] = typeof input === 'string' ? [{ role: 'user', content: input }] : Array.isArray(input) ? input : [];
+
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const type = item.type ?? 'message';
+
+    if (type === 'message') {
+      const role = item.role === 'developer' ? 'system' : item.role;
+      messages.push({ role: typeof role === 'string' ? role : 'user', content: toChatContent(item.content) });
+    } else if (type === 'function_call') {
+      const toolCall = {
+        id: item.call_id ?? item.id ?? `call_${randomUUID()}`,
+        type: 'function' as const,
+        function: { name: String(item.name ?? ''), arguments: typeof item.arguments === 'string' ? item.arguments : JSON.stringify(item.arguments ?? {}) },
+      };
+      const previous = messages[messages.length - 1];
+      if (previous?.role === 'assistant' && Array.isArray(previous.tool_calls)) {
+        previous.tool_calls.push(toolCall);
+      } else {
+        messages.push({ role: 'assistant', content: '', tool_calls: [toolCall] });
+      }
+    } else if (type === 'function_call_output') {
+      const output = typeof item.output === 'string' ? item.output : JSON.stringify(item.output ?? '');
+      messages.push({ role: 'tool', tool_call_id: item.call_id, content: output });
+    }
+  }
+
+  return messages;
+}
+
+/** Map Responses request parameters (flat tools, text.format, max_output_tokens) onto Zhipu's chat parameters. */
+export function toZhipuParamsFromResponsesRequest(req: AnyObj): Partial<ZhipuChatRequest> {
+  const params: Partial<ZhipuChatRequest> = {};
+  if (typeof req.temperature === 'number') params.temperature = req.temperature;
+  if (typeof req.top_p === 'number') params.top_p = req.top_p;
+  if (typeof req.max_output_tokens === 'number') params.max_tokens = req.max_output_tokens;
+  if (typeof req.user === 'string') params.user = req.user;
+
+  if (Array.isArray(req.tools)) {
+    // Hosted tools (web_search, file_search, ...) have no GLM equivalent and are dropped.
+    const tools = req.tools
+      .filter((tool: AnyObj) => tool?.type === 'function')
+      .map((tool: AnyObj) => ({
+        type: 'function',
+        function: tool.function ?? { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+    if (tools.length) params.tools = tools;
+  }
+
+  if (req.tool_choice !== undefined && params.tools) {
+    const choice = req.tool_choice;
+    params.tool_choice = choice && typeof choice === 'object' && choice.type === 'function' && choice.name
+      ? { type: 'function', function: { name: choice.name } }
+      : choice;
+  }
+
+  const formatType = req.text?.format?.type;
+  if (formatType === 'json_object' || formatType === 'json_schema') {
+    params.response_format = { type: 'json_object' };
+  }
+
+  return params;
+}
+
+export function toResponseUsage(usage: AnyObj | undefined): ResponseUsage | null {
+  if (!usage) return null;
+  return {
+    input_tokens: usage.prompt_tokens ?? 0,
+    input_tokens_details: { cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0 },
+    output_tokens: usage.completion_tokens ?? 0,
+    output_tokens_details: { reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0 },
+    total_tokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+  };
+}
+
+/** Derive the response `status` and `incomplete_details` from the upstream finish reason. */
+export function toResponseStatus(finishReason: string | null | undefined): Pick<ResponseObject, 'status' | 'incomplete_details'> {
+  if (finishReason === 'length') return { status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' } };
+  if (finishReason === 'sensitive') return { status: 'incomplete', incomplete_details: { reason: 'content_filter' } };
+  return { status: 'completed', incomplete_details: null };
+}
+
+/**
+ * Create the response skeleton, echoing the request parameters the way OpenAI does.
+ * `output`, `usage` and `status` are filled in as the generation progresses.
+ */
+export function createResponseObject(req: AnyObj, requestedModel: string): ResponseObject {
+  return {
+    id: newItemId('resp'),
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status: 'in_progress',
+    background: req.background === true,
+    error: null,
+    incomplete_details: null,
+    instructions: req.instructions ?? null,
+    max_output_tokens: req.max_output_tokens ?? null,
+    model: requestedModel,
+    output: [],
+    parallel_tool_calls: req.parallel_tool_calls ?? true,
+    previous_response_id: req.previous_response_id ?? null,
+    reasoning: { effort: req.reasoning?.effort ?? null, summary: req.reasoning?.summary ?? null },
+    store: req.store ?? true,
+    temperature: req.temperature ?? null,
+    text: req.text ?? { format: { type: 'text' } },
+    tool_choice: req.tool_choice ?? 'auto',
+    tools: Array.isArray(req.tools) ? req.tools : [],
+    top_p: req.top_p ?? null,
+    truncation: req.truncation ?? 'disabled',
+    usage: null,
+    user: req.user ?? null,
+    metadata: req.metadata ?? {},
+  };
+}
+
+/** Build the output items of a finished (non-streamed) Zhipu completion. */
+export function toResponseOutput(zhipuResp: ZhipuChatNonStreamResp): ResponseOutputItem[] {
+  const choice = zhipuResp.choices?.[0];
+  if (!choice) return [];
+  const message = choice.message ?? choice.delta ?? {};
+  const output: ResponseOutputItem[] = [];
+
+  const reasoning = message.reasoning_content ?? choice.reasoning;
+  if (typeof reasoning === 'string' && reasoning) {
+    output.push({ type: 'reasoning', id: newItemId('rs'), summary: [], content: [{ type: 'reasoning_text', text: reasoning }] });
+  }
+
+  const text = typeof message.content === 'string' ? message.content : typeof choice.text === 'string' ? choice.text : '';
+  if (text) {
+    output.push({
+      type: 'message',
+      id: newItemId('msg'),
+      status: 'completed',
+      role: 'assistant',
+      content: [{ type: 'output_text', text, annotations: [] }],
+    });
+  }
+
+  for (const toolCall of message.tool_calls ?? []) {
+    const args = toolCall?.function?.arguments;
+    output.push({
+      type: 'function_call',
+      id: newItemId('fc'),
+      status: 'completed',
+      call_id: toolCall?.id || `call_${randomUUID()}`,
+      name: toolCall?.function?.name || 'unnamed',
+      arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+    });
+  }
+
+  return output;
+}
+
+/**
+ * Translate Zhipu chat-completion chunks into the typed Responses streaming events.
+ *
+ * Each kind of upstream delta opens its own output item the first time it appears:
+ * reasoning text, assistant text, and one `function_call` item per upstream tool
+ * index. Items stay open until the stream finishes, at which point every `*.done`
+ * event is emitted followed by the terminal `response.completed`/`response.incomplete`.
+ */
+export function createResponseEventTranslator(response: ResponseObject, emit: (event: ResponseStreamEvent) => void) {
+  let sequence = 0;
+  const send = (event: ResponseStreamEvent) => emit({ ...event, sequence_number: sequence++ });
+
+  let reasoningItem: Extract<ResponseOutputItem, { type: 'reasoning' }> | undefined;
+  let messageItem: Extract<ResponseOutputItem, { type: 'message' }> | undefined;
+  const toolItems = new Map<number, Extract<ResponseOutputItem, { type: 'function_call' }>>();
+  let finishReason: string | undefined;
+  let usage: AnyObj | undefined;
+
+  const addItem = (item: ResponseOutputItem) => {
+    response.output.push(item);
+    send({ type: 'response.output_item.added', output_index: response.output.length - 1, item: { ...item } });
+  };
+  const indexOf = (item: ResponseOutputItem) => response.output.indexOf(item);
+
+  send({ type: 'response.created', response: { ...response } });
+  send({ type: 'response.in_progress', response: { ...response } });
+
+  return {
+    onChunk(zhipuChunk: AnyObj) {
+      if (zhipuChunk.usage) usage = zhipuChunk.usage;
+      const choice = zhipuChunk.choices?.[0];
+      if (!choice) return;
+      const delta = choice.delta || {};
+
+      if (typeof delta.reasoning_content === 'string' && delta.reasoning_content) {
+        if (!reasoningItem) {
+          reasoningItem = { type: 'reasoning', id: newItemId('rs'), summary: [], content: [{ type: 'reasoning_text', text: '' }] };
+          addItem(reasoningItem);
+        }
+        reasoningItem.content[0].text += delta.reasoning_content;
+        send({ type: 'response.reasoning_text.delta', item_id: reasoningItem.id, output_index: indexOf(reasoningItem), content_index: 0, delta: delta.reasoning_content });
+      }
+
+      if (typeof delta.content === 'string' && delta.content) {
+        if (!messageItem) {
+          messageItem = { type: 'message', id: newItemId('msg'), status: 'in_progress', role: 'assistant', content: [] };
+          addItem(messageItem);
+          messageItem.content.push({ type: 'output_text', text: '', annotations: [] });
+          send({ type: 'response.content_part.added', item_id: messageItem.id, output_index: indexOf(messageItem), content_index: 0, part: { type: 'output_text', text: '', annotations: [] } });
+        }
+        messageItem.content[0].text += delta.content;
+        send({ type: 'response.output_text.delta', item_id: messageItem.id, output_index: indexOf(messageItem), content_index: 0, delta: delta.content });
+      }
+
+      if (Array.isArray(delta.tool_calls)) {
+        delta.tool_calls.forEach((toolDelta: AnyObj, position: number) => {
+          const index = typeof toolDelta.index === 'number' ? toolDelta.index : position;
+          let item = toolItems.get(index);
+          if (!item) {
+            item = {
+              type: 'function_call',
+              id: newItemId('fc'),
+              status: 'in_progress',
+              call_id: toolDelta.id || `call_${randomUUID()}`,
+              name: toolDelta.function?.name || '',
+              arguments: '',
+            };
+            toolItems.set(index, item);
+            addItem(item);
+          } else if (!item.name && toolDelta.function?.name) {
+            item.name = toolDelta.function.name;
+          }
+          const fragment = toolDelta.function?.arguments;
+          if (typeof fragment === 'string' && fragment) {
+            item.arguments += fragment;
+            send({ type: 'response.function_call_arguments.delta', item_id: item.id, output_index: indexOf(item), delta: fragment });
+          }
+        });
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    },
+
+    /** Close every open item and emit the terminal event. Returns the final response object. */
+    finish(): ResponseObject {
+      if (reasoningItem) {
+        send({ type: 'response.reasoning_text.done', item_id: reasoningItem.id, output_index: indexOf(reasoningItem), content_index: 0, text: reasoningItem.content[0].text });
+        send({ type: 'response.output_item.done', output_index: indexOf(reasoningItem), item: reasoningItem });
+      }
+      if (messageItem) {
+        const part = messageItem.content[0];
+        messageItem.status = 'completed';
+        send({ type: 'response.output_text.done', item_id: messageItem.id, output_index: indexOf(messageItem), content_index: 0, text: part.text });
+        send({ type: 'response.content_part.done', item_id: messageItem.id, output_index: indexOf(messageItem), content_index: 0, part });
+        send({ type: 'response.output_item.done', output_index: indexOf(messageItem), item: messageItem });
+      }
+      for (const item of toolItems.values()) {
+        item.status = 'completed';
+        item.name = item.name || 'unnamed';
+        send({ type: 'response.function_call_arguments.done', item_id: item.id, output_index: indexOf(item), arguments: item.arguments });
+        send({ type: 'response.output_item.done', output_index: indexOf(item), item });
+      }
+
+      Object.assign(response, toResponseStatus(finishReason), { usage: toResponseUsage(usage) });
+      send({ type: response.status === 'incomplete' ? 'response.incomplete' : 'response.completed', response });
+      return response;
+    },
+
+    /** Emit `response.failed` after an upstream error; items streamed so far are kept. */
+    fail(error: { code: string; message: string }): ResponseObject {
+      Object.assign(response, { status: 'failed', error, usage: toResponseUsage(usage) });
+      send({ type: 'response.failed', response });
+      return response;
+    },
+  };
+}
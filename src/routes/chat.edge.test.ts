@@ -72,7 +72,7 @@ describe('Chat Routes - edge cases', () => {
       .send({ messages: [{ role: 'user', content: 'hi' }] });
 
     expect(response.status).toBe(400);
-    expect(response.body.error).toBe('Missing "model" in request body');
+    expect(response.body.error.message).toBe('Missing "model" in request body');
   });
 
   it('returns 400 when messages is not an array', async () => {
@@ -81,7 +81,7 @@ describe('Chat Routes - edge cases', () => {
       .send({ model: 'glm-4.6:latest', messages: 'nope' });
 
     expect(response.status).toBe(400);
-    expect(response.body.error).toBe('"messages" must be an array');
+    expect(response.body.error.message).toBe('"messages" must be an array');
   });
 
   it('extractChoiceContent handles delta, text, content and contents array', async () => {
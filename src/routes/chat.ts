@@ -1,13 +1,81 @@
 import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { randomUUID } from 'crypto';
-import { config } from '../config';
-import { zhipuChatOnce, zhipuChatStream, normalizeModelName, ZhipuChatRequest, ZhipuChatMessage } from '../zhipu';
-import { CORS_HEADERS } from '../server';
+import { ZhipuChatRequest, ZhipuChatMessage } from '../zhipu';
+import { createSseDataParser } from '../sse';
+import { cancelOnDisconnect } from '../cancel';
+import { translateUpstreamError, invalidRequestError, translateErrorBody, toOpenAIError, GatewayError, INCOMPLETE_STREAM_ERROR } from '../errors';
+import { sumUsage, usageOrEstimate } from '../tokens';
+import { resolveModel, modelNotFoundError } from '../routing';
+import { withFallbacks, applyRoute } from '../fallback';
+import { applyModelRules, requestAttributes } from '../rules';
+import {
+  applyReasoningMode,
+  createReasoningStreamer,
+  resolveReasoningMode,
+  thinkingFromReasoningEffort,
+} from '../reasoning';
 
 type AnyObj = Record<string, any>;
 
+// Per-call state while relaying a streamed tool call.
+interface StreamedToolCall {
+  id: string;
+  name: string;
+  headerSent: boolean;
+  pendingArgs: string;
+}
+
+// Per-choice state while relaying one upstream stream.
+interface ChoiceStream {
+  roleSent: boolean;
+  finished: boolean;
+  ended: boolean;
+  // Generated text, for usage estimates when upstream reports none.
+  text: string;
+  usage: AnyObj | undefined;
+  toolCalls: Map<number, StreamedToolCall>;
+  reasoning: ReturnType<typeof createReasoningStreamer>;
+}
+
+// Upper bound on `n`, as every choice is a separate upstream call.
+const MAX_CHOICES = 8;
+
+/**
+ * Make `count` upstream calls that succeed or fail together, like Promise.all. Each call gets a
+ * signal that follows `signal` and also fires when a sibling fails, so the others stop early;
+ * those that did start are handed to `release` (e.g. to close their streams) before the first
+ * error is rethrown.
+ */
+async function settleAll<T>(
+  count: number,
+  signal: AbortSignal,
+  call: (signal: AbortSignal, index: number) => Promise<T>,
+  release: (value: T) => void = () => {}
+): Promise<T[]> {
+  const fanOut = new AbortController();
+  // Left in place on success: streams keep using the signal until they end.
+  signal.addEventListener('abort', () => fanOut.abort(), { once: true });
+  let failure: { reason: unknown } | undefined;
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, index) =>
+      call(fanOut.signal, index).catch((reason) => {
+        failure ??= { reason };
+        fanOut.abort();
+        throw reason;
+      })
+    )
+  );
+  if (failure) {
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') release(result.value);
+    });
+    throw failure.reason;
+  }
+  return results.map((result) => (result as PromiseFulfilledResult<T>).value);
+}
+
 export function registerChatRoutes(app: FastifyInstance<any, any, any, any>) {
-  const handleChatRequest = async (request: FastifyRequest, reply: FastifyReply, endpoint: 'completions' | 'responses') => {
+  const handleChatRequest = async (request: FastifyRequest, reply: FastifyReply) => {
     let openaiReq: AnyObj;
     try {
       const body = request.body as unknown;
@@ -19,24 +87,43 @@ export function registerChatRoutes(app: FastifyInstance<any, any, any, any>) {
         openaiReq = (body as AnyObj) || {};
       }
     } catch (error) {
-      return reply.code(400).headers(CORS_HEADERS).send({ error: 'Invalid JSON request body' });
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Invalid JSON request body')));
     }
 
-    const { model: requestedModel, messages, stream: streamRequested, ...rest } = openaiReq;
+    const {
+      model: requestedModel,
+      messages,
+      stream: streamRequested,
+      reasoning_mode: requestedReasoningMode,
+      stream_options: streamOptions,
+      n: requestedChoices,
+      reasoning_effort: reasoningEffort,
+      thinking: requestedThinking,
+      ...rest
+    } = openaiReq;
 
     if (!requestedModel) {
-      return reply.code(400).headers(CORS_HEADERS).send({ error: 'Missing "model" in request body' });
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Missing "model" in request body', 'model')));
     }
     if (!Array.isArray(messages)) {
-      return reply.code(400).headers(CORS_HEADERS).send({ error: '"messages" must be an array' });
+      return reply.code(400).send(toOpenAIError(invalidRequestError('"messages" must be an array', 'messages')));
     }
 
     if (!messages.every((msg: AnyObj) => msg && typeof msg.role === 'string')) {
-      return reply.code(400).headers(CORS_HEADERS).send({ error: 'Each message must include a string "role"' });
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Each message must include a string "role"', 'messages')));
+    }
+    if (requestedChoices != null && (!Number.isInteger(requestedChoices) || requestedChoices < 1 || requestedChoices > MAX_CHOICES)) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError(`"n" must be an integer between 1 and ${MAX_CHOICES}`, 'n')));
     }
 
-    const normalizedModel = normalizeModelName(requestedModel);
-    const targetModel = normalizedModel.startsWith('glm') ? normalizedModel : config.DEFAULT_ZHIPU_MODEL;
+    // MODEL_RULES may pick another model from what the request looks like (intent, size, tools, images).
+    const selectedModel = applyModelRules(requestedModel, requestAttributes(request, messages, rest.tools));
+    const route = resolveModel(selectedModel);
+    if (!route) {
+      return reply.code(404).send(toOpenAIError(modelNotFoundError(selectedModel)));
+    }
+    const targetModel = route.model;
+    const reasoningMode = resolveReasoningMode(targetModel, requestedReasoningMode ?? request.headers['x-reasoning-mode']);
 
     const normalizeInboundMessage = (msg: AnyObj): ZhipuChatMessage => {
       if (!msg || typeof msg !== 'object') {
@@ -92,6 +179,8 @@ export function registerChatRoutes(app: FastifyInstance<any, any, any, any>) {
       messages: (messages as AnyObj[]).map(normalizeInboundMessage),
       ...rest,
     };
+    // Zhipu's own `thinking` type, else `reasoning_effort` mapped onto it; dropped for models without hybrid reasoning (see supportsThinking).
+    applyRoute(zhipuReq, route, requestedThinking?.type ?? thinkingFromReasoningEffort(reasoningEffort));
 
     const extractChoiceContent = (choice: any): string => {
       if (!choice) return '';
@@ -122,125 +211,211 @@ export function registerChatRoutes(app: FastifyInstance<any, any, any, any>) {
       });
     };
 
+    // Zhipu returns a single choice per call, so `n` > 1 fans out parallel upstream calls.
+    const choiceCount = requestedChoices ?? 1;
+    const choiceStates: ChoiceStream[] = Array.from({ length: choiceCount }, () => ({
+      roleSent: false,
+      finished: false,
+      ended: false,
+      text: '',
+      usage: undefined,
+      toolCalls: new Map<number, StreamedToolCall>(),
+      reasoning: createReasoningStreamer(reasoningMode),
+    }));
+    const totalUsage = () =>
+      sumUsage(choiceStates.map((state) => usageOrEstimate(state.usage, zhipuReq.messages, state.text)));
+
+    // Stop paying for tokens nobody reads once the client has gone away.
+    const partialUsage = () => ({ model: targetModel, ...totalUsage() });
+    const signal = cancelOnDisconnect(reply, () => {
+      app.log.info(partialUsage(), 'Client disconnected, cancelled upstream request for /v1/chat/completions');
+    });
+    // Set on the raw response so it also reaches clients on the streaming path, which writes its own head.
+    // With fan-out each call retries on its own, so the header reports their total.
+    const retries = choiceStates.map(() => 0);
+    const onRetryOf = (index: number) => (count: number) => {
+      retries[index] = count;
+      reply.raw.setHeader('X-Upstream-Retries', String(retries.reduce((total, value) => total + value, 0)));
+    };
+    // Fallbacks may answer with another model than the one asked for; tell the client which one.
+    const onModel = (model: string) => reply.raw.setHeader('X-Upstream-Model', model);
+
     if (streamRequested) {
       // --- TRUE STREAMING RESPONSE (SSE) ---
       try {
-        const zhipuStreamResponse = await zhipuChatStream(zhipuReq);
+        const zhipuStreamResponses = await withFallbacks(
+          route,
+          zhipuReq,
+          (provider, callOptions) =>
+            settleAll(
+              choiceStates.length,
+              signal,
+              (callSignal, index) => provider.chatStream(zhipuReq, { signal: callSignal, onRetry: onRetryOf(index), ...callOptions }),
+              (started) => started.data?.destroy?.()
+            ),
+          { signal, onModel }
+        );
 
         reply.raw.writeHead(200, {
           'Content-Type': 'text/event-stream; charset=utf-8',
           'Cache-Control': 'no-cache',
           Connection: 'keep-alive',
-          ...CORS_HEADERS,
         });
 
-        const isCompletions = endpoint === 'completions';
-        let streamBuffer = '';
         let requestId = `chatcmpl-${randomUUID()}`;
         let created = Math.floor(Date.now() / 1000);
-        let roleSent = false;
+        let idAssigned = false;
 
         const writeSse = (data: object) => reply.raw.write(`data: ${JSON.stringify(data)}\n\n`);
 
-        zhipuStreamResponse.data.on('data', (chunk: Buffer) => {
-          streamBuffer += chunk.toString('utf-8');
-          const lines = streamBuffer.split('\n');
-          streamBuffer = lines.pop() || ''; // Keep the last partial line for the next chunk
-
-          for (const line of lines) {
-            if (!line.startsWith('data:')) continue;
-
-            const dataStr = line.substring(5).trim();
-            if (dataStr === '[DONE]') continue;
+        // A stream that breaks off ends with an OpenAI-style error event before [DONE], so
+        // clients can tell a cut-off answer from a finished one. Nothing follows the error.
+        let failed = false;
+        const failStream = (upstreamError: GatewayError) => {
+          if (failed || reply.raw.writableEnded) return;
+          failed = true;
+          app.log.warn({ ...partialUsage(), error: upstreamError }, 'Upstream stream failed mid-response for /v1/chat/completions');
+          writeSse(toOpenAIError(upstreamError));
+          endStream();
+        };
+        const endStream = () => {
+          if (reply.raw.writableEnded) return;
+          // One broken choice ends the whole response; drop the other upstream streams.
+          zhipuStreamResponses.forEach((res) => res.data?.destroy?.());
+          if (streamOptions?.include_usage && !failed) {
+            // OpenAI's trailing usage chunk: empty choices, usage for the whole stream.
+            writeSse({ id: requestId, object: 'chat.completion.chunk', created, model: requestedModel, choices: [], usage: totalUsage() });
+          }
+          reply.raw.write('data: [DONE]\n\n');
+          reply.raw.end();
+        };
+
+        zhipuStreamResponses.forEach((zhipuStreamResponse, choiceIndex) => {
+          const state = choiceStates[choiceIndex];
+          const writeDelta = (baseChunk: AnyObj, delta: AnyObj, finishReason?: string) =>
+            writeSse({ ...baseChunk, choices: [{ index: choiceIndex, delta, ...(finishReason ? { finish_reason: finishReason } : {}) }] });
+
+          // Tool calls are streamed in fragments keyed by the upstream `index`; each call gets
+          // exactly one header chunk (id, type, name) followed by its argument fragments,
+          // which is the sequence Copilot expects.
+          const sendToolArgs = (baseChunk: AnyObj, index: number, args: string) => {
+            writeDelta(baseChunk, { tool_calls: [{ index, function: { arguments: args } }] });
+          };
+          const sendToolHeader = (baseChunk: AnyObj, index: number, call: StreamedToolCall) => {
+            call.id = call.id || `call_${randomUUID()}`;
+            call.headerSent = true;
+            writeDelta(baseChunk, { tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.name || 'unnamed', arguments: '' } }] });
+            if (call.pendingArgs) {
+              sendToolArgs(baseChunk, index, call.pendingArgs);
+              call.pendingArgs = '';
+            }
+          };
 
+          zhipuStreamResponse.data.on('data', createSseDataParser((dataStr, line) => {
+            if (reply.raw.writableEnded) return;
             try {
               const zhipuChunk = JSON.parse(dataStr);
+              if (zhipuChunk.usage) state.usage = zhipuChunk.usage;
+              if (zhipuChunk.error) {
+                failStream(translateErrorBody(zhipuChunk, 502));
+                return;
+              }
 
-              if (zhipuChunk.id && !roleSent) requestId = zhipuChunk.id;
-              if (zhipuChunk.created && !roleSent) created = zhipuChunk.created;
+              if (zhipuChunk.id && !idAssigned) requestId = zhipuChunk.id;
+              if (zhipuChunk.created && !idAssigned) created = zhipuChunk.created;
+              idAssigned = true;
 
               const baseChunk = {
                 id: requestId,
-                object: isCompletions ? 'chat.completion.chunk' : 'response.chunk',
+                object: 'chat.completion.chunk',
                 created: created,
                 model: requestedModel,
               };
 
-              if (!roleSent) {
-                const roleDelta = { role: 'assistant' };
-                writeSse(
-                  isCompletions
-                    ? { ...baseChunk, choices: [{ index: 0, delta: roleDelta }] }
-                    : { ...baseChunk, outputs: [{ id: `${requestId}-0`, type: 'message', role: 'assistant', delta: roleDelta }] }
-                );
-                roleSent = true;
+              if (!state.roleSent) {
+                writeDelta(baseChunk, { role: 'assistant' });
+                state.roleSent = true;
               }
 
               const choice = zhipuChunk.choices?.[0];
-              if (!choice) continue;
+              if (!choice) return;
 
               const delta = choice.delta || {};
               const finishReason = choice.finish_reason;
 
-              if (delta.content) {
-                const contentDelta = { content: delta.content };
-                writeSse(
-                  isCompletions
-                    ? { ...baseChunk, choices: [{ index: 0, delta: contentDelta }] }
-                    : { ...baseChunk, outputs: [{ id: `${requestId}-0`, type: 'message', delta: { content: { type: 'output_text', text: delta.content } } }] }
-                );
+              const textDelta = state.reasoning.delta(delta.reasoning_content, delta.content);
+              state.text += (textDelta.reasoning_content ?? '') + (textDelta.content ?? '');
+              if (textDelta.reasoning_content) {
+                writeDelta(baseChunk, { reasoning_content: textDelta.reasoning_content });
+              }
+              if (textDelta.content) {
+                writeDelta(baseChunk, { content: textDelta.content });
               }
 
-              if (delta.tool_calls) {
-                // Replicate the specific tool_call sequence required by Copilot
-                for (let i = 0; i < delta.tool_calls.length; i++) {
-                  const toolCall = delta.tool_calls[i];
-                  if (!toolCall.function || !toolCall.function.name) continue;
-
-                  const toolHeaderDelta = { tool_calls: [{ index: i, id: toolCall.id, type: 'function', function: { name: toolCall.function.name, arguments: '' } }] };
-                  writeSse(
-                    isCompletions
-                      ? { ...baseChunk, choices: [{ index: 0, delta: toolHeaderDelta }] }
-                      : { ...baseChunk, outputs: [{ id: `${requestId}-${i}`, type: 'tool_call', delta: toolHeaderDelta }] }
-                  );
-
-                  const argsDelta = { tool_calls: [{ index: i, function: { arguments: toolCall.function.arguments || '' } }] };
-                  writeSse(
-                    isCompletions
-                      ? { ...baseChunk, choices: [{ index: 0, delta: argsDelta }] }
-                      : { ...baseChunk, outputs: [{ id: `${requestId}-${i}`, type: 'tool_call', delta: argsDelta }] }
-                  );
-                }
+              if (Array.isArray(delta.tool_calls)) {
+                delta.tool_calls.forEach((toolCall: AnyObj, position: number) => {
+                  const index = typeof toolCall?.index === 'number' ? toolCall.index : position;
+                  let call = state.toolCalls.get(index);
+                  if (!call) {
+                    call = { id: '', name: '', headerSent: false, pendingArgs: '' };
+                    state.toolCalls.set(index, call);
+                  }
+                  if (toolCall?.id && !call.id) call.id = toolCall.id;
+                  if (toolCall?.function?.name && !call.name) call.name = toolCall.function.name;
+                  const args = typeof toolCall?.function?.arguments === 'string'
+                    ? toolCall.function.arguments
+                    : toolCall?.function?.arguments != null ? JSON.stringify(toolCall.function.arguments) : '';
+                  state.text += args;
+
+                  // Arguments can arrive before the name; hold them until the header can go out.
+                  if (!call.headerSent && !call.name) {
+                    call.pendingArgs += args;
+                    return;
+                  }
+                  if (!call.headerSent) sendToolHeader(baseChunk, index, call);
+                  if (args) sendToolArgs(baseChunk, index, args);
+                });
               }
 
               if (finishReason) {
-                const finishChunk: any = isCompletions
-                  ? { ...baseChunk, choices: [{ index: 0, delta: {}, finish_reason: finishReason }] }
-                  : { ...baseChunk, outputs: [{ id: `${requestId}-0`, type: 'message', delta: {} }], finish_reason: finishReason };
+                state.finished = true;
+                const closingThink = state.reasoning.finish();
+                if (closingThink) writeDelta(baseChunk, { content: closingThink });
+                // Flush calls whose name never arrived so their arguments are not lost.
+                state.toolCalls.forEach((call, index) => {
+                  if (!call.headerSent) sendToolHeader(baseChunk, index, call);
+                });
+                const reason = state.toolCalls.size > 0 && finishReason === 'stop' ? 'tool_calls' : finishReason;
+                const finishChunk: any = { ...baseChunk, choices: [{ index: choiceIndex, delta: {}, finish_reason: reason }] };
                 if (zhipuChunk.usage) finishChunk.usage = zhipuChunk.usage;
                 writeSse(finishChunk);
               }
             } catch (e) {
               app.log.warn({ error: e, line }, 'Failed to parse or process upstream SSE chunk');
             }
-          }
-        });
+          }));
 
-        zhipuStreamResponse.data.on('end', () => {
-          reply.raw.write('data: [DONE]\n\n');
-          reply.raw.end();
-        });
+          zhipuStreamResponse.data.on('end', () => {
+            if (reply.raw.writableEnded) return;
+            state.ended = true;
+            if (!state.finished) failStream(INCOMPLETE_STREAM_ERROR);
+            if (choiceStates.every((other) => other.ended)) endStream();
+          });
 
-        zhipuStreamResponse.data.on('error', (err: Error) => {
-          app.log.error(err, 'Upstream stream connection error');
-          if (!reply.raw.writableEnded) {
-            reply.raw.end();
-          }
+          zhipuStreamResponse.data.on('error', async (err: Error) => {
+            if (signal.aborted || reply.raw.writableEnded) return;
+            app.log.error(err, 'Upstream stream connection error');
+            const upstreamError = state.finished ? undefined : await translateUpstreamError(err);
+            if (upstreamError) failStream(upstreamError);
+            endStream();
+          });
         });
       } catch (error: any) {
-        app.log.error(error, `Error initiating stream with Zhipu API for /v1/${endpoint}`);
+        if (signal.aborted) return;
+        app.log.error(error, 'Error initiating stream with Zhipu API for /v1/chat/completions');
         if (!reply.raw.headersSent) {
-          reply.code(502).headers(CORS_HEADERS).send({ error: 'Upstream API error', detail: error.message });
+          const upstreamError = await translateUpstreamError(error);
+          reply.code(upstreamError.status).send(toOpenAIError(upstreamError));
         } else if (!reply.raw.writableEnded) {
           reply.raw.end();
         }
@@ -248,68 +423,60 @@ export function registerChatRoutes(app: FastifyInstance<any, any, any, any>) {
     } else {
       // --- NON-STREAMING RESPONSE ---
       try {
-        const zhipuResp = await zhipuChatOnce(zhipuReq);
+        const zhipuResps = await withFallbacks(
+          route,
+          zhipuReq,
+          (provider, callOptions) =>
+            settleAll(choiceStates.length, signal, (callSignal, index) =>
+              provider.chatOnce(zhipuReq, { signal: callSignal, onRetry: onRetryOf(index), ...callOptions })
+            ),
+          { signal, onModel }
+        );
+        const zhipuResp = zhipuResps[0];
         const firstChoice = zhipuResp.choices?.[0];
         if (firstChoice?.message?.tool_calls) {
           firstChoice.message.tool_calls = normalizeToolCalls(firstChoice.message.tool_calls);
         }
-
-        if (endpoint === 'completions') {
-          const normalizedChoices = (zhipuResp.choices || []).map((c: any, idx: number) => {
-            const content = extractChoiceContent(c);
-            const message: { role: 'assistant'; content: string | null; tool_calls?: any[] } = {
-              role: 'assistant',
-              content: c.message?.tool_calls ? null : content,
-            };
-            if (c.message?.tool_calls) {
-              message.tool_calls = normalizeToolCalls(c.message.tool_calls);
-            }
-            return { index: idx, message, finish_reason: c.finish_reason ?? 'stop' };
-          });
-
-          if (normalizedChoices.every((c) => !c.message.content && !c.message.tool_calls)) {
-            app.log.warn({ upstream: zhipuResp }, 'No content or tool_calls extracted');
+        // With fan-out, each upstream call contributes its first choice.
+        const upstreamChoices = zhipuResps.length > 1
+          ? zhipuResps.flatMap((resp) => (resp.choices || []).slice(0, 1))
+          : zhipuResp.choices || [];
+
+        const normalizedChoices = upstreamChoices.map((c: any, idx: number) => {
+          const reasoningText = c.message?.reasoning_content ?? c.delta?.reasoning_content;
+          const shaped = applyReasoningMode(extractChoiceContent(c), typeof reasoningText === 'string' ? reasoningText : undefined, reasoningMode);
+          const message: { role: 'assistant'; content: string | null; reasoning_content?: string; tool_calls?: any[] } = {
+            role: 'assistant',
+            // With tool calls, content is null unless it carries `think` mode's inlined reasoning.
+            content: c.message?.tool_calls ? shaped.content || null : shaped.content,
+          };
+          if (shaped.reasoning_content) {
+            message.reasoning_content = shaped.reasoning_content;
           }
+          if (c.message?.tool_calls) {
+            message.tool_calls = normalizeToolCalls(c.message.tool_calls);
+          }
+          return { index: idx, message, finish_reason: c.finish_reason ?? 'stop' };
+        });
 
-          return reply.code(200).headers(CORS_HEADERS).send({
-            id: zhipuResp.id,
-            object: 'chat.completion',
-            created: zhipuResp.created,
-            model: requestedModel,
-            choices: normalizedChoices,
-            usage: zhipuResp.usage,
-          });
-        } else { // 'responses' endpoint
-          const outputs = (zhipuResp.choices || []).map((c: any, idx: number) => {
-            const contentText = extractChoiceContent(c);
-            const output: any = {
-              id: `${zhipuResp.id}-${idx}`,
-              type: 'message',
-              role: 'assistant',
-              content: contentText ? [{ type: 'output_text', text: contentText }] : [],
-              finish_reason: c.finish_reason ?? 'stop',
-            };
-            if (c.message?.tool_calls) {
-              output.tool_calls = normalizeToolCalls(c.message.tool_calls);
-            }
-            if (c.reasoning) {
-              output.reasoning = c.reasoning;
-            }
-            return output;
-          });
-          return reply.code(200).headers(CORS_HEADERS).send({
-            id: zhipuResp.id,
-            object: 'response',
-            created: zhipuResp.created,
-            model: requestedModel,
-            outputs,
-            usage: zhipuResp.usage,
-          });
+        if (normalizedChoices.every((c) => !c.message.content && !c.message.tool_calls)) {
+          app.log.warn({ upstream: zhipuResp }, 'No content or tool_calls extracted');
         }
+
+        return reply.code(200).send({
+          id: zhipuResp.id,
+          object: 'chat.completion',
+          created: zhipuResp.created,
+          model: requestedModel,
+          choices: normalizedChoices,
+          usage: zhipuResps.length > 1 ? sumUsage(zhipuResps.map((resp) => resp.usage)) : zhipuResp.usage,
+        });
       } catch (error: any) {
-        app.log.error(error, `Error calling Zhipu API for /v1/${endpoint}`);
+        if (signal.aborted) return;
+        app.log.error(error, 'Error calling Zhipu API for /v1/chat/completions');
         if (!reply.raw.headersSent) {
-          reply.code(502).headers(CORS_HEADERS).send({ error: 'Upstream API error', detail: error.message });
+          const upstreamError = await translateUpstreamError(error);
+          reply.code(upstreamError.status).send(toOpenAIError(upstreamError));
         } else {
           reply.raw.end();
         }
@@ -317,6 +484,5 @@ export function registerChatRoutes(app: FastifyInstance<any, any, any, any>) {
     }
   };
 
-  app.post('/v1/chat/completions', (req, rep) => handleChatRequest(req, rep, 'completions'));
-  app.post('/v1/responses', (req, rep) => handleChatRequest(req, rep, 'responses'));
+  app.post('/v1/chat/completions', (req, rep) => handleChatRequest(req, rep));
 }
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import supertest from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { buildServer } from '../server';
+import { sseStream, parseSseChunks } from './test-helpers';
+import * as zhipu from '../zhipu';
+
+// Mock the zhipu module
+vi.mock('../zhipu', () => ({
+  zhipuChatOnce: vi.fn(),
+  zhipuChatStream: vi.fn(),
+  normalizeModelName: vi.fn((model: string) => model.split(':')[0]),
+}));
+const mockedZhipuChatOnce = vi.mocked(zhipu.zhipuChatOnce);
+const mockedZhipuChatStream = vi.mocked(zhipu.zhipuChatStream);
+
+describe('Completions Routes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    // Set a dummy API key to prevent config initialization from failing
+    process.env.ZHIPUAI_API_KEY = 'dummy-test-key';
+    app = await buildServer();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('POST /v1/completions (non-stream) fills the gap and strips code fences', async () => {
+    mockedZhipuChatOnce.mockResolvedValueOnce({
+      id: 'upstream-1',
+      created: 1,
+      model: 'glm-4.6',
+      choices: [{ index: 0, message: { role: 'assistant', content: '```ts\na + b;\n```' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+    });
+
+    const response = await supertest(app.server)
+      .post('/v1/completions')
+      .send({ model: 'glm-4.6', prompt: ['const sum = '], suffix: '\nexport default sum;', max_tokens: 64, stop: '\n\n' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      object: 'text_completion',
+      model: 'glm-4.6',
+      choices: [{ text: 'a + b;', index: 0, logprobs: null, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+    });
+    expect(response.body.id).toMatch(/^cmpl-/);
+
+    const zhipuReq = mockedZhipuChatOnce.mock.calls.at(-1)![0];
+    expect(zhipuReq).toMatchObject({ model: 'glm-4.6', max_tokens: 64, stop: ['\n\n'], thinking: { type: 'disabled' } });
+    expect(zhipuReq.messages.at(-1)!.content).toContain('<prefix>\nconst sum = \n</prefix>\n<suffix>\n\nexport default sum;\n</suffix>');
+  });
+
+  it('POST /v1/completions (stream) emits cleaned text_completion chunks', async () => {
+    mockedZhipuChatStream.mockResolvedValueOnce(
+      sseStream([
+        { choices: [{ index: 0, delta: { content: 'Here is the code:\n``' } }] },
+        { choices: [{ index: 0, delta: { content: '`js\nfoo(' } }] },
+        { choices: [{ index: 0, delta: { content: ');\n```\nDone.' } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 10, completion_tokens: 6, total_tokens: 16 } },
+      ])
+    );
+
+    const response = await supertest(app.server)
+      .post('/v1/completions')
+      .send({ model: 'glm-4.6', prompt: 'foo', suffix: '', stream: true, stream_options: { include_usage: true } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(response.text.trim().endsWith('data: [DONE]')).toBe(true);
+
+    const chunks = parseSseChunks(response.text);
+    const usageChunk = chunks.pop();
+    expect(usageChunk).toMatchObject({ object: 'text_completion', choices: [], usage: { prompt_tokens: 10, completion_tokens: 6, total_tokens: 16 } });
+    expect(chunks.every((chunk) => chunk.object === 'text_completion')).toBe(true);
+    expect(chunks.map((chunk) => chunk.choices[0].text).join('')).toBe('foo();');
+    expect(chunks.at(-1)!.choices[0].finish_reason).toBe('stop');
+  });
+
+  it('POST /v1/completions returns an OpenAI error when the upstream call fails', async () => {
+    mockedZhipuChatOnce.mockRejectedValueOnce(
+      Object.assign(new Error('Request failed with status code 429'), {
+        response: { status: 429, data: { error: { code: '1302', message: 'concurrency limit' } } },
+      })
+    );
+
+    const response = await supertest(app.server).post('/v1/completions').send({ model: 'glm-4.6', prompt: 'x' });
+
+    expect(response.status).toBe(429);
+    expect(response.body.error).toMatchObject({ type: 'rate_limit_error', code: 'rate_limit_exceeded' });
+  });
+
+  it('POST /v1/completions rejects a request without a model', async () => {
+    const response = await supertest(app.server).post('/v1/completions').send({ prompt: 'x' });
+    expect(response.status).toBe(400);
+    expect(response.body.error.message).toBe('Missing "model" in request body');
+  });
+});
@@ -0,0 +1,182 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { randomUUID } from 'crypto';
+import { ZhipuChatRequest } from '../zhipu';
+import { createSseDataParser } from '../sse';
+import { cancelOnDisconnect } from '../cancel';
+import { translateUpstreamError, invalidRequestError, translateErrorBody, toOpenAIError, GatewayError, INCOMPLETE_STREAM_ERROR } from '../errors';
+import { usageOrEstimate } from '../tokens';
+import { buildFimMessages, cleanFimCompletion, createFimCleaner } from '../fim';
+import { thinkingFromReasoningEffort } from '../reasoning';
+import { resolveModel, modelNotFoundError } from '../routing';
+import { withFallbacks, applyRoute } from '../fallback';
+import { applyModelRules, requestAttributes } from '../rules';
+
+type AnyObj = Record<string, any>;
+
+export function registerCompletionsRoutes(app: FastifyInstance<any, any, any, any>) {
+  // POST /v1/completions - Legacy text completions, used by inline (ghost-text) code completion clients.
+  app.post('/v1/completions', async (request: FastifyRequest, reply: FastifyReply) => {
+    let openaiReq: AnyObj;
+    try {
+      const body = request.body as unknown;
+      if (Buffer.isBuffer(body)) {
+        openaiReq = JSON.parse(body.toString('utf8'));
+      } else if (typeof body === 'string') {
+        openaiReq = JSON.parse(body);
+      } else {
+        openaiReq = (body as AnyObj) || {};
+      }
+    } catch (error) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Invalid JSON request body')));
+    }
+
+    const requestedModel = openaiReq.model;
+    // A single-element prompt array is common; several prompts per request are not supported.
+    const prompt = Array.isArray(openaiReq.prompt) && openaiReq.prompt.length <= 1 ? openaiReq.prompt[0] ?? '' : openaiReq.prompt;
+
+    if (!requestedModel) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Missing "model" in request body', 'model')));
+    }
+    if (typeof prompt !== 'string') {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('"prompt" must be a string', 'prompt')));
+    }
+
+    const messages = buildFimMessages(prompt, typeof openaiReq.suffix === 'string' ? openaiReq.suffix : '');
+    const selectedModel = applyModelRules(requestedModel, requestAttributes(request, messages));
+    const route = resolveModel(selectedModel);
+    if (!route) {
+      return reply.code(404).send(toOpenAIError(modelNotFoundError(selectedModel)));
+    }
+    const zhipuReq: ZhipuChatRequest = { model: route.model, messages };
+    if (typeof openaiReq.max_tokens === 'number') zhipuReq.max_tokens = openaiReq.max_tokens;
+    if (typeof openaiReq.temperature === 'number') zhipuReq.temperature = openaiReq.temperature;
+    if (typeof openaiReq.top_p === 'number') zhipuReq.top_p = openaiReq.top_p;
+    if (openaiReq.stop !== undefined && openaiReq.stop !== null) zhipuReq.stop = Array.isArray(openaiReq.stop) ? openaiReq.stop : [openaiReq.stop];
+    if (typeof openaiReq.user === 'string') zhipuReq.user = openaiReq.user;
+    // Ghost text has to be fast, so thinking stays off unless the client asks for it.
+    applyRoute(zhipuReq, route, thinkingFromReasoningEffort(openaiReq.reasoning_effort) ?? 'disabled');
+
+    const completionId = `cmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const completion = (choices: AnyObj[], usage?: AnyObj) => ({
+      id: completionId,
+      object: 'text_completion',
+      created,
+      model: requestedModel,
+      choices,
+      ...(usage ? { usage } : {}),
+    });
+
+    let generated = '';
+    let upstreamUsage: AnyObj | undefined;
+    const signal = cancelOnDisconnect(reply, () => {
+      app.log.info(
+        { model: zhipuReq.model, ...usageOrEstimate(upstreamUsage, zhipuReq.messages, generated) },
+        'Client disconnected, cancelled upstream request for /v1/completions'
+      );
+    });
+    const onRetry = (retries: number) => reply.raw.setHeader('X-Upstream-Retries', String(retries));
+    const onModel = (model: string) => reply.raw.setHeader('X-Upstream-Model', model);
+
+    if (openaiReq.stream) {
+      // --- STREAMING RESPONSE (SSE text_completion chunks) ---
+      try {
+        const zhipuStreamResponse = await withFallbacks(route, zhipuReq, (provider, callOptions) => provider.chatStream(zhipuReq, { signal, onRetry, ...callOptions }), {
+          signal,
+          onModel,
+        });
+
+        reply.raw.writeHead(200, {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+
+        const writeSse = (data: object) => reply.raw.write(`data: ${JSON.stringify(data)}\n\n`);
+        const writeText = (text: string, finishReason: string | null = null) => {
+          if (text || finishReason) writeSse(completion([{ text, index: 0, logprobs: null, finish_reason: finishReason }]));
+        };
+        const cleaner = createFimCleaner();
+        let finishReason: string | undefined;
+        let failed = false;
+
+        const failStream = (upstreamError: GatewayError) => {
+          if (failed || reply.raw.writableEnded) return;
+          failed = true;
+          app.log.warn({ model: zhipuReq.model, error: upstreamError }, 'Upstream stream failed mid-response for /v1/completions');
+          writeSse(toOpenAIError(upstreamError));
+        };
+        const endStream = () => {
+          if (reply.raw.writableEnded) return;
+          if (!failed) {
+            writeText(cleaner.flush(), finishReason === 'length' ? 'length' : 'stop');
+            if (openaiReq.stream_options?.include_usage) {
+              writeSse(completion([], usageOrEstimate(upstreamUsage, zhipuReq.messages, generated)));
+            }
+          }
+          reply.raw.write('data: [DONE]\n\n');
+          reply.raw.end();
+        };
+
+        zhipuStreamResponse.data.on('data', createSseDataParser((dataStr, line) => {
+          if (failed) return;
+          try {
+            const zhipuChunk = JSON.parse(dataStr);
+            if (zhipuChunk.usage) upstreamUsage = zhipuChunk.usage;
+            if (zhipuChunk.error) {
+              failStream(translateErrorBody(zhipuChunk, 502));
+              return;
+            }
+            const choice = zhipuChunk.choices?.[0];
+            const content = choice?.delta?.content;
+            if (typeof content === 'string' && content) {
+              generated += content;
+              writeText(cleaner.push(content));
+            }
+            if (choice?.finish_reason) finishReason = choice.finish_reason;
+          } catch (e) {
+            app.log.warn({ error: e, line }, 'Failed to parse or process upstream SSE chunk');
+          }
+        }));
+
+        zhipuStreamResponse.data.on('end', () => {
+          if (!finishReason) failStream(INCOMPLETE_STREAM_ERROR);
+          endStream();
+        });
+
+        zhipuStreamResponse.data.on('error', async (err: Error) => {
+          if (signal.aborted || reply.raw.writableEnded) return;
+          app.log.error(err, 'Upstream stream connection error');
+          failStream(await translateUpstreamError(err));
+          endStream();
+        });
+      } catch (error: any) {
+        if (signal.aborted) return;
+        app.log.error(error, 'Error initiating stream with Zhipu API for /v1/completions');
+        if (!reply.raw.headersSent) {
+          const upstreamError = await translateUpstreamError(error);
+          reply.code(upstreamError.status).send(toOpenAIError(upstreamError));
+        } else if (!reply.raw.writableEnded) {
+          reply.raw.end();
+        }
+      }
+    } else {
+      // --- NON-STREAMING RESPONSE ---
+      try {
+        const zhipuResp = await withFallbacks(route, zhipuReq, (provider, callOptions) => provider.chatOnce(zhipuReq, { signal, onRetry, ...callOptions }), { signal, onModel });
+        const choice = zhipuResp.choices?.[0];
+        const content = typeof choice?.message?.content === 'string' ? choice.message.content : '';
+
+        return reply.code(200).send(completion(
+          [{ text: cleanFimCompletion(content), index: 0, logprobs: null, finish_reason: choice?.finish_reason === 'length' ? 'length' : 'stop' }],
+          usageOrEstimate(zhipuResp.usage, zhipuReq.messages, content)
+        ));
+      } catch (error: any) {
+        if (signal.aborted) return;
+        app.log.error(error, 'Error calling Zhipu API for /v1/completions');
+        const upstreamError = await translateUpstreamError(error);
+        return reply.code(upstreamError.status).send(toOpenAIError(upstreamError));
+      }
+    }
+  });
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import supertest from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { buildServer } from '../server';
+import { config, parseModelRoutes } from '../config';
+import * as zhipu from '../zhipu';
+
+// Mock the zhipu module
+vi.mock('../zhipu', () => ({
+  zhipuChatOnce: vi.fn(),
+  zhipuChatStream: vi.fn(),
+  zhipuEmbed: vi.fn(),
+  normalizeModelName: vi.fn((model: string) => model),
+}));
+const mockedZhipuEmbed = vi.mocked(zhipu.zhipuEmbed);
+
+const embeddingResponse = (vectors: number[][]) => ({
+  model: 'embedding-3',
+  object: 'list' as const,
+  data: vectors.map((embedding, index) => ({ index, object: 'embedding' as const, embedding })),
+  usage: { prompt_tokens: 6, completion_tokens: 0, total_tokens: 6 },
+});
+
+describe('Embeddings Routes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    // Set a dummy API key to prevent config initialization from failing
+    process.env.ZHIPUAI_API_KEY = 'dummy-test-key';
+    app = await buildServer();
+    await app.ready();
+    config.MODEL_ROUTES = parseModelRoutes('{"text-embedding-3-*": {"model": "embedding-3", "dimensions": 1024}}');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    config.MODEL_ROUTES = [];
+  });
+
+  it('POST /v1/embeddings returns an OpenAI embedding list', async () => {
+    mockedZhipuEmbed.mockResolvedValueOnce(embeddingResponse([[0.1, 0.2], [0.3, 0.4]]));
+
+    const response = await supertest(app.server)
+      .post('/v1/embeddings')
+      .send({ model: 'text-embedding-3-small', input: ['first', 'second'], dimensions: 256 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      object: 'list',
+      data: [
+        { object: 'embedding', index: 0, embedding: [0.1, 0.2] },
+        { object: 'embedding', index: 1, embedding: [0.3, 0.4] },
+      ],
+      model: 'text-embedding-3-small',
+      usage: { prompt_tokens: 6, total_tokens: 6 },
+    });
+    expect(mockedZhipuEmbed.mock.calls.at(-1)![0]).toEqual({ model: 'embedding-3', input: ['first', 'second'], dimensions: 256 });
+  });
+
+  it('POST /v1/embeddings applies route defaults and 404s for unknown models', async () => {
+    mockedZhipuEmbed.mockResolvedValueOnce(embeddingResponse([[0.1]]));
+    await supertest(app.server).post('/v1/embeddings').send({ model: 'text-embedding-3-large', input: 'x' });
+    expect(mockedZhipuEmbed.mock.calls.at(-1)![0]).toEqual({ model: 'embedding-3', input: 'x', dimensions: 1024 });
+
+    const missing = await supertest(app.server).post('/v1/embeddings').send({ model: 'nomic-embed-text', input: 'x' });
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toMatchObject({ code: 'model_not_found', param: 'model' });
+  });
+
+  it('POST /v1/embeddings supports base64 encoding', async () => {
+    mockedZhipuEmbed.mockResolvedValueOnce(embeddingResponse([[0.5]]));
+
+    const response = await supertest(app.server)
+      .post('/v1/embeddings')
+      .send({ model: 'embedding-2', input: 'text', encoding_format: 'base64' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data[0].embedding).toBe(Buffer.from(new Float32Array([0.5]).buffer).toString('base64'));
+    expect(mockedZhipuEmbed.mock.calls.at(-1)![0]).toEqual({ model: 'embedding-2', input: 'text' });
+  });
+
+  it('POST /v1/embeddings rejects token-array input', async () => {
+    const response = await supertest(app.server).post('/v1/embeddings').send({ model: 'embedding-3', input: [1, 2, 3] });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toMatchObject({ type: 'invalid_request_error', param: 'input' });
+  });
+
+  it('POST /v1/embeddings translates upstream errors', async () => {
+    mockedZhipuEmbed.mockRejectedValueOnce(
+      Object.assign(new Error('Request failed with status code 400'), {
+        response: { status: 400, data: { error: { code: '1214', message: 'dimensions not supported' } } },
+      })
+    );
+
+    const response = await supertest(app.server).post('/v1/embeddings').send({ model: 'embedding-2', input: 'x', dimensions: 256 });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toMatchObject({ type: 'invalid_request_error', code: 'invalid_parameter' });
+  });
+
+  it('POST /api/embed returns Ollama embeddings', async () => {
+    mockedZhipuEmbed.mockResolvedValueOnce(embeddingResponse([[1, 2], [3, 4]]));
+
+    const response = await supertest(app.server).post('/api/embed').send({ model: 'embedding-3:latest', input: ['a', 'b'] });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ model: 'embedding-3:latest', embeddings: [[1, 2], [3, 4]], prompt_eval_count: 6 });
+    expect(response.body.total_duration).toBeGreaterThan(0);
+  });
+
+  it('POST /api/embed reports upstream errors in Ollama format', async () => {
+    mockedZhipuEmbed.mockRejectedValueOnce(new Error('socket hang up'));
+
+    const response = await supertest(app.server).post('/api/embed').send({ model: 'embedding-3', input: 'a' });
+
+    expect(response.status).toBe(502);
+    expect(response.body).toEqual({ error: 'Upstream API error: socket hang up' });
+  });
+
+  it('POST /api/embeddings returns a single embedding for the prompt', async () => {
+    mockedZhipuEmbed.mockResolvedValueOnce(embeddingResponse([[0.25, 0.75]]));
+
+    const response = await supertest(app.server).post('/api/embeddings').send({ model: 'embedding-3', prompt: 'hello' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ embedding: [0.25, 0.75] });
+    expect(mockedZhipuEmbed.mock.calls.at(-1)![0]).toEqual({ model: 'embedding-3', input: 'hello' });
+  });
+
+  it('stops without answering when the client disconnects mid-call', async () => {
+    const logError = vi.spyOn(app.log, 'error');
+    let upstreamSignal: AbortSignal | undefined;
+    mockedZhipuEmbed.mockImplementationOnce((_req, options) => new Promise((_resolve, reject) => {
+      upstreamSignal = options?.signal;
+      upstreamSignal?.addEventListener('abort', () => reject(new Error('canceled')));
+    }));
+
+    try {
+      await expect(
+        supertest(app.server).post('/v1/embeddings').timeout(100).send({ model: 'embedding-3', input: 'slow' })
+      ).rejects.toThrow();
+
+      await vi.waitFor(() => expect(upstreamSignal?.aborted).toBe(true));
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(logError).not.toHaveBeenCalled();
+    } finally {
+      logError.mockRestore();
+    }
+  });
+});
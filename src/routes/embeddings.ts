@@ -0,0 +1,144 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { cancelOnDisconnect } from '../cancel';
+import { translateUpstreamError, invalidRequestError, toOpenAIError, toOllamaError, GatewayError } from '../errors';
+import { embedAll, toBase64Embedding, toEmbeddingInputs, EmbeddingResult } from '../embeddings';
+import { resolveModel, modelNotFoundError } from '../routing';
+import { getProvider } from '../providers';
+
+type AnyObj = Record<string, any>;
+
+// Bodies arrive as parsed JSON, or as a raw Buffer when clients omit the JSON content type.
+function readJsonBody(request: FastifyRequest): AnyObj {
+  const body = request.body as unknown;
+  if (Buffer.isBuffer(body)) return JSON.parse(body.toString('utf8'));
+  if (typeof body === 'string') return JSON.parse(body);
+  return (body as AnyObj) || {};
+}
+
+export function registerEmbeddingsRoutes(app: FastifyInstance<any, any, any, any>) {
+  // POST /v1/embeddings - OpenAI embeddings.
+  app.post('/v1/embeddings', async (request: FastifyRequest, reply: FastifyReply) => {
+    let body: AnyObj;
+    try {
+      body = readJsonBody(request);
+    } catch {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Invalid JSON request body')));
+    }
+    if (!body.model) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Missing "model" in request body', 'model')));
+    }
+    const inputs = toEmbeddingInputs(body.input);
+    if (!inputs) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('"input" must be a string or a non-empty array of strings', 'input')));
+    }
+
+    const result = await embed(app, reply, '/v1/embeddings', body, inputs);
+    if (!result) return;
+    if (!isEmbeddingResult(result)) {
+      return reply.code(result.status).send(toOpenAIError(result));
+    }
+
+    const base64 = body.encoding_format === 'base64';
+    return reply.code(200).send({
+      object: 'list',
+      data: result.embeddings.map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        embedding: base64 ? toBase64Embedding(embedding) : embedding,
+      })),
+      model: body.model,
+      usage: { prompt_tokens: result.prompt_tokens, total_tokens: result.prompt_tokens },
+    });
+  });
+
+  // POST /api/embed - Ollama embeddings for one or more inputs.
+  app.post('/api/embed', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = parseOllamaEmbedRequest(request, reply);
+    if (!body) return;
+    const inputs = toEmbeddingInputs(body.input);
+    if (!inputs) {
+      return reply.code(400).send({ error: 'input must be a string or a non-empty array of strings' });
+    }
+
+    const startedAt = process.hrtime.bigint();
+    const result = await embed(app, reply, '/api/embed', body, inputs);
+    if (!result) return;
+    if (!isEmbeddingResult(result)) {
+      return reply.code(result.status).send(toOllamaError(result));
+    }
+
+    return reply.send({
+      model: body.model,
+      embeddings: result.embeddings,
+      total_duration: Number(process.hrtime.bigint() - startedAt),
+      load_duration: 0,
+      prompt_eval_count: result.prompt_tokens,
+    });
+  });
+
+  // POST /api/embeddings - Ollama's older single-prompt embeddings endpoint.
+  app.post('/api/embeddings', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = parseOllamaEmbedRequest(request, reply);
+    if (!body) return;
+    // Like Ollama, an empty prompt gets an empty embedding without a model call.
+    if (typeof body.prompt !== 'string' || !body.prompt) {
+      return reply.send({ embedding: [] });
+    }
+
+    const result = await embed(app, reply, '/api/embeddings', body, [body.prompt]);
+    if (!result) return;
+    if (!isEmbeddingResult(result)) {
+      return reply.code(result.status).send(toOllamaError(result));
+    }
+    return reply.send({ embedding: result.embeddings[0] ?? [] });
+  });
+}
+
+/** Parse an Ollama request body and check for a model; replies with 400 and returns undefined otherwise. */
+function parseOllamaEmbedRequest(request: FastifyRequest, reply: FastifyReply): AnyObj | undefined {
+  let body: AnyObj;
+  try {
+    body = readJsonBody(request);
+  } catch {
+    reply.code(400).send({ error: 'invalid JSON request body' });
+    return undefined;
+  }
+  if (!body.model) {
+    reply.code(400).send({ error: 'model is required' });
+    return undefined;
+  }
+  return body;
+}
+
+function isEmbeddingResult(result: EmbeddingResult | GatewayError): result is EmbeddingResult {
+  return 'embeddings' in result;
+}
+
+/**
+ * Embed `inputs` for the requested model, returning a 404 for unknown models or the translated upstream error.
+ * Undefined means the client disconnected and there is no one to answer.
+ */
+async function embed(
+  app: FastifyInstance<any, any, any, any>,
+  reply: FastifyReply,
+  route: string,
+  body: AnyObj,
+  inputs: string[],
+): Promise<EmbeddingResult | GatewayError | undefined> {
+  const resolved = resolveModel(body.model, 'embedding');
+  if (!resolved) return modelNotFoundError(body.model);
+  const model = resolved.model;
+  const dimensions = typeof body.dimensions === 'number' ? body.dimensions : resolved.params.dimensions;
+  const signal = cancelOnDisconnect(reply, () => {
+    app.log.info({ model, inputs: inputs.length }, `Client disconnected, cancelled upstream request for ${route}`);
+  });
+  const onRetry = (retries: number) => reply.raw.setHeader('X-Upstream-Retries', String(retries));
+
+  try {
+    return await embedAll(getProvider(resolved.provider), model, inputs, dimensions, { signal, onRetry });
+  } catch (error: any) {
+    if (signal.aborted) return undefined;
+    app.log.error(error, `Error calling Zhipu API for ${route}`);
+    return translateUpstreamError(error);
+  }
+}
@@ -1,8 +1,23 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
 import supertest from 'supertest';
 import { FastifyInstance } from 'fastify';
 import { buildServer } from '../server';
+import { sseStream } from './test-helpers';
+import { config, parseModelRoutes } from '../config';
+import * as zhipu from '../zhipu';
 import models from '../models.json';
+import { decodeContext } from '../ollama';
+
+// Mock only the upstream calls; model-name helpers keep their real behaviour.
+vi.mock('../zhipu', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../zhipu')>()),
+  zhipuChatOnce: vi.fn(),
+  zhipuChatStream: vi.fn(),
+}));
+const mockedZhipuChatOnce = vi.mocked(zhipu.zhipuChatOnce);
+const mockedZhipuChatStream = vi.mocked(zhipu.zhipuChatStream);
+
+const parseNdjson = (text: string) => text.trim().split('\n').map((line) => JSON.parse(line));
 
 describe('Meta Routes', () => {
   let app: FastifyInstance;
@@ -43,6 +58,56 @@ describe('Meta Routes', () => {
     expect(response.body.model_info['general.basename']).toBe(modelToShow.split(':')[0]);
   });
 
+  it('POST /api/show advertises the embedding capability for embedding models', async () => {
+    const response = await supertest(app.server).post('/api/show').send({ model: 'embedding-3:latest' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.capabilities).toEqual(['embedding']);
+  });
+
+  it('GET /v1/models lists the catalog as OpenAI model objects', async () => {
+    const response = await supertest(app.server).get('/v1/models');
+
+    expect(response.status).toBe(200);
+    expect(response.body.object).toBe('list');
+    expect(response.body.data.map((m: any) => m.id)).toEqual(models.map((m) => m.model.split(':')[0]));
+    expect(response.body.data[0]).toMatchObject({
+      id: 'glm-4.6',
+      object: 'model',
+      created: Math.floor(Date.parse(models[0].modified_at) / 1000),
+      owned_by: 'zhipuai',
+      capabilities: { tools: true, vision: true, reasoning: true, embedding: false },
+    });
+  });
+
+  it('GET /v1/models/:id returns one model and 404s for unknown ids', async () => {
+    const found = await supertest(app.server).get('/v1/models/embedding-3:latest');
+    expect(found.status).toBe(200);
+    expect(found.body).toMatchObject({ id: 'embedding-3', object: 'model', capabilities: { tools: false, reasoning: false, embedding: true } });
+
+    const missing = await supertest(app.server).get('/v1/models/gpt-4o');
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toMatchObject({ code: 'model_not_found', param: 'model' });
+  });
+
+  it('lists routed aliases alongside the catalog and rejects unknown models', async () => {
+    config.MODEL_ROUTES = parseModelRoutes('{"coder:fast": {"model": "glm-4.5-air", "temperature": 0.2}, "gpt-*": "glm-4.6"}');
+    try {
+      const tags = await supertest(app.server).get('/api/tags');
+      expect(tags.body.models.at(-1)).toMatchObject({ name: 'coder:fast', model: 'coder:fast', details: models[2].details });
+
+      const alias = await supertest(app.server).get('/v1/models/coder:fast');
+      expect(alias.status).toBe(200);
+      expect(alias.body).toMatchObject({ id: 'coder:fast', capabilities: { reasoning: true } });
+
+      const chat = await supertest(app.server).post('/api/chat').send({ model: 'llama3', messages: [{ role: 'user', content: 'hi' }] });
+      expect(chat.status).toBe(404);
+      expect(chat.body).toEqual({ error: "The model 'llama3' does not exist" });
+    } finally {
+      config.MODEL_ROUTES = [];
+    }
+  });
+
   it('POST /api/show should return 404 for an invalid model', async () => {
     const response = await supertest(app.server)
       .post('/api/show')
@@ -51,4 +116,266 @@ describe('Meta Routes', () => {
     expect(response.status).toBe(404);
     expect(response.body).toHaveProperty('error');
   });
+
+  describe('POST /api/chat', () => {
+    it('returns a single object when stream is false', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce({
+        id: 'chat-1',
+        created: 1,
+        model: 'glm-4.6',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      });
+
+      const response = await supertest(app.server)
+        .post('/api/chat')
+        .send({
+          model: 'glm-4.6:latest',
+          messages: [{ role: 'user', content: 'Hi', images: ['iVBORw0KGgo'] }],
+          options: { temperature: 0.1, num_predict: 64 },
+          format: 'json',
+          keep_alive: '5m',
+          stream: false,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        model: 'glm-4.6:latest',
+        message: { role: 'assistant', content: 'Hello!' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 12,
+        eval_count: 3,
+      });
+      expect(typeof response.body.total_duration).toBe('number');
+
+      const forwarded = mockedZhipuChatOnce.mock.calls.at(-1)![0];
+      expect(forwarded).toMatchObject({ model: 'glm-4.6', temperature: 0.1, max_tokens: 64, response_format: { type: 'json_object' } });
+      expect(forwarded).not.toHaveProperty('keep_alive');
+      expect(forwarded.messages[0].content).toEqual([
+        { type: 'text', text: 'Hi' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo' } },
+      ]);
+    });
+
+    it('streams NDJSON frames by default', async () => {
+      mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+        { id: 's1', choices: [{ index: 0, delta: { role: 'assistant', content: 'Hel' } }] },
+        { id: 's1', choices: [{ index: 0, delta: { content: 'lo' } }] },
+        { id: 's1', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } },
+      ]));
+
+      const response = await supertest(app.server)
+        .post('/api/chat')
+        .send({ model: 'glm-4.6:latest', messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      const frames = parseNdjson(response.text);
+      expect(frames.map((f) => f.message.content)).toEqual(['Hel', 'lo', '']);
+      expect(frames.slice(0, -1).every((f) => f.done === false)).toBe(true);
+      expect(frames.at(-1)).toMatchObject({ done: true, done_reason: 'stop', prompt_eval_count: 5, eval_count: 2 });
+    });
+
+    it('assembles streamed tool call fragments into one frame', async () => {
+      mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather', arguments: '{"city":' } }] } }] },
+        { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+      ]));
+
+      const response = await supertest(app.server)
+        .post('/api/chat')
+        .send({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Weather?' }], tools: [{ type: 'function', function: { name: 'get_weather' } }] });
+
+      const frames = parseNdjson(response.text);
+      expect(frames[0].message.tool_calls).toEqual([{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }]);
+      expect(frames.at(-1)).toMatchObject({ done: true, done_reason: 'stop' });
+    });
+
+    it('maps think onto Zhipu thinking', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce({
+        id: 'chat-think',
+        created: 1,
+        model: 'glm-4.6',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Quick.' }, finish_reason: 'stop' }],
+      });
+
+      await supertest(app.server)
+        .post('/api/chat')
+        .send({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Hi' }], think: false, stream: false });
+
+      const forwarded = mockedZhipuChatOnce.mock.calls.at(-1)![0];
+      expect(forwarded.thinking).toEqual({ type: 'disabled' });
+      expect(forwarded).not.toHaveProperty('think');
+    });
+
+    it('passes GLM reasoning on as Ollama thinking, or inlined in think mode', async () => {
+      mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+        { choices: [{ index: 0, delta: { reasoning_content: 'Hmm' } }] },
+        { choices: [{ index: 0, delta: { content: 'Hi!' } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+      ]));
+      const streamed = await supertest(app.server)
+        .post('/api/chat')
+        .send({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Hi' }] });
+      const frames = parseNdjson(streamed.text);
+      expect(frames.slice(0, 2).map((f) => f.message)).toEqual([
+        { role: 'assistant', content: '', thinking: 'Hmm' },
+        { role: 'assistant', content: 'Hi!' },
+      ]);
+
+      mockedZhipuChatOnce.mockResolvedValueOnce({
+        id: 'chat-reasoning',
+        created: 1,
+        model: 'glm-4.6',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi!', reasoning_content: 'Hmm' }, finish_reason: 'stop' }],
+      });
+      const inlined = await supertest(app.server)
+        .post('/api/chat')
+        .set('X-Reasoning-Mode', 'think')
+        .send({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Hi' }], stream: false });
+      expect(inlined.body.message).toEqual({ role: 'assistant', content: '<think>\nHmm\n</think>\n\nHi!' });
+    });
+
+    it('ends a broken stream with an error line instead of a done frame', async () => {
+      mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+        { choices: [{ index: 0, delta: { content: 'Hel' } }] },
+        { error: { code: '1302', message: 'too many requests' } },
+      ]));
+
+      const response = await supertest(app.server)
+        .post('/api/chat')
+        .send({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Hi' }] });
+
+      const frames = parseNdjson(response.text);
+      expect(frames[0].message.content).toBe('Hel');
+      expect(frames.at(-1)).toEqual({ error: expect.stringContaining('too many requests') });
+      expect(frames.some((f) => f.done === true)).toBe(false);
+    });
+
+    it('acknowledges load and unload probes without calling upstream', async () => {
+      mockedZhipuChatOnce.mockClear();
+      const load = await supertest(app.server).post('/api/chat').send({ model: 'glm-4.6', messages: [] });
+      expect(load.body).toMatchObject({ done: true, done_reason: 'load' });
+
+      const unload = await supertest(app.server).post('/api/chat').send({ model: 'glm-4.6', keep_alive: 0 });
+      expect(unload.body).toMatchObject({ done: true, done_reason: 'unload' });
+      expect(mockedZhipuChatOnce).not.toHaveBeenCalled();
+    });
+
+    it('validates the request and reports upstream failures', async () => {
+      const missingModel = await supertest(app.server).post('/api/chat').send({ messages: [] });
+      expect(missingModel.status).toBe(400);
+      expect(missingModel.body.error).toBe('model is required');
+
+      mockedZhipuChatStream.mockRejectedValueOnce(new Error('down'));
+      const failed = await supertest(app.server)
+        .post('/api/chat')
+        .send({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Hi' }] });
+      expect(failed.status).toBe(502);
+      expect(failed.body.error).toContain('down');
+
+      mockedZhipuChatOnce.mockRejectedValueOnce(Object.assign(new Error('Request failed with status code 429'), {
+        response: { status: 429, headers: {}, data: { error: { code: '1113', message: 'Insufficient balance' } } },
+      }));
+      const quota = await supertest(app.server)
+        .post('/api/chat')
+        .send({ model: 'glm-4.6', messages: [{ role: 'user', content: 'Hi' }], stream: false });
+      expect(quota.status).toBe(429);
+      expect(quota.body.error).toContain('Insufficient balance');
+    });
+  });
+
+  describe('POST /api/generate', () => {
+    it('maps system, prompt and options onto a chat request and returns context', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce({
+        id: 'gen-1',
+        created: 1,
+        model: 'glm-4.6',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Blue.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 },
+      });
+
+      const response = await supertest(app.server)
+        .post('/api/generate')
+        .send({ model: 'glm-4.6:latest', system: 'Be brief.', prompt: 'Sky colour?', options: { temperature: 0 }, stream: false });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ model: 'glm-4.6:latest', response: 'Blue.', done: true, done_reason: 'stop', eval_count: 2 });
+      expect(Array.isArray(response.body.context)).toBe(true);
+
+      const forwarded = mockedZhipuChatOnce.mock.calls.at(-1)![0];
+      expect(forwarded.temperature).toBe(0);
+      expect(forwarded.messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Sky colour?' },
+      ]);
+
+      // Handing the context back continues the same conversation.
+      mockedZhipuChatOnce.mockResolvedValueOnce({
+        id: 'gen-2',
+        created: 1,
+        model: 'glm-4.6',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Green.' }, finish_reason: 'stop' }],
+      });
+      await supertest(app.server)
+        .post('/api/generate')
+        .send({ model: 'glm-4.6', prompt: 'And grass?', context: response.body.context, stream: false });
+      expect(mockedZhipuChatOnce.mock.calls.at(-1)![0].messages).toEqual([
+        { role: 'user', content: 'Sky colour?' },
+        { role: 'assistant', content: 'Blue.' },
+        { role: 'user', content: 'And grass?' },
+      ]);
+    });
+
+    it('streams NDJSON response frames', async () => {
+      mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+        { choices: [{ index: 0, delta: { content: 'def ' } }] },
+        { choices: [{ index: 0, delta: { content: 'add' } }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'length' }] },
+      ]));
+
+      const response = await supertest(app.server)
+        .post('/api/generate')
+        .send({ model: 'glm-4.6', prompt: 'def', suffix: '(a, b):', raw: false });
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      const frames = parseNdjson(response.text);
+      expect(frames.map((f) => f.response)).toEqual(['def ', 'add', '']);
+      expect(frames.at(-1)).toMatchObject({ done: true, done_reason: 'length' });
+      expect(frames.at(-1)).not.toHaveProperty('context');
+
+      const forwarded = mockedZhipuChatStream.mock.calls.at(-1)![0];
+      expect(forwarded.messages[0].role).toBe('system');
+      expect(forwarded.messages[1].content).toContain('(a, b):');
+    });
+
+    it('returns GLM reasoning as thinking, keeping it out of the context', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce({
+        id: 'gen-reasoning',
+        created: 1,
+        model: 'glm-4.6',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Blue.', reasoning_content: 'Rayleigh' }, finish_reason: 'stop' }],
+      });
+
+      const response = await supertest(app.server)
+        .post('/api/generate')
+        .send({ model: 'glm-4.6', prompt: 'Sky colour?', stream: false });
+
+      expect(response.body).toMatchObject({ response: 'Blue.', thinking: 'Rayleigh', done: true });
+      expect(decodeContext(response.body.context).at(-1)).toEqual({ role: 'assistant', content: 'Blue.' });
+    });
+
+    it('sends raw prompts verbatim and acknowledges empty prompts', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce({ id: 'raw', created: 1, model: 'glm-4.6', choices: [{ index: 0, message: { role: 'assistant', content: 'ok' } }] });
+      await supertest(app.server)
+        .post('/api/generate')
+        .send({ model: 'glm-4.6', prompt: '[INST] hi [/INST]', system: 'ignored', raw: true, stream: false });
+      expect(mockedZhipuChatOnce.mock.calls.at(-1)![0].messages).toEqual([{ role: 'user', content: '[INST] hi [/INST]' }]);
+
+      const load = await supertest(app.server).post('/api/generate').send({ model: 'glm-4.6' });
+      expect(load.body).toMatchObject({ response: '', done: true, done_reason: 'load' });
+    });
+  });
 });
@@ -1,30 +1,65 @@
 import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
-import fs from 'fs';
-import path from 'path';
-import { CORS_HEADERS } from '../server';
+import {
+  applyReasoningMode,
+  createReasoningStreamer,
+  resolveReasoningMode,
+  supportsThinking,
+  thinkingFromOllamaThink,
+} from '../reasoning';
+import { createSseDataParser } from '../sse';
+import { cancelOnDisconnect } from '../cancel';
+import { translateUpstreamError, translateErrorBody, toOllamaError, toOpenAIError, GatewayError, INCOMPLETE_STREAM_ERROR } from '../errors';
+import { estimatePromptTokens, estimateTokens } from '../tokens';
+import { resolveModel, modelNotFoundError, routeAliases, ResolvedModel } from '../routing';
+import { normalizeModelName, ZhipuChatRequest, ChatCompletionToolCall } from '../zhipu';
+import { catalogModels, findCatalogModel } from '../catalog';
+import { withFallbacks, applyRoute } from '../fallback';
+import { isAllowedOrigin } from '../cors';
+import { applyModelRules, requestAttributes } from '../rules';
+import { ZHIPU_PROVIDER } from '../config';
+import {
+  createNdjsonWriter,
+  endNdjson,
+  toZhipuMessages,
+  toZhipuGenerateMessages,
+  toZhipuParams,
+  toOllamaToolCalls,
+  toOllamaDoneReason,
+  ollamaStats,
+  encodeContext,
+  decodeContext,
+  OllamaToolCall,
+} from '../ollama';
 
-// Load GLM models list from JSON file
-const MODELS_PATH = path.join(__dirname, '..', 'models.json');
-const GLM_MODELS = JSON.parse(fs.readFileSync(MODELS_PATH, 'utf8'));
+type AnyObj = Record<string, any>;
+
+// Bodies arrive as parsed JSON, or as a raw Buffer when clients omit the JSON content type.
+function readJsonBody(request: FastifyRequest): AnyObj {
+  const body = request.body as unknown;
+  if (Buffer.isBuffer(body)) return JSON.parse(body.toString('utf8'));
+  if (typeof body === 'string') return JSON.parse(body);
+  return (body as AnyObj) || {};
+}
 
 export function registerMetaRoutes(app: FastifyInstance<any, any, any, any>) {
-  // Global OPTIONS preflight handler for CORS
+  // Global OPTIONS preflight handler; the CORS headers themselves come from registerCors.
   app.options('/*', async (request: FastifyRequest, reply: FastifyReply) => {
-    reply.headers(CORS_HEADERS).code(204).send();
+    const origin = request.headers.origin;
+    reply.code(origin && !isAllowedOrigin(origin) ? 403 : 204).send();
   });
 
   // GET /api/version - Returns a hardcoded, compatible version string.
   app.get('/api/version', async (request: FastifyRequest, reply: FastifyReply) => {
     reply
-      .headers({ ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' })
+      .headers({ 'Content-Type': 'application/json; charset=utf-8' })
       .send({ version: '0.6.5' });
   });
 
   // GET /api/tags - Lists all available models from models.json.
   app.get('/api/tags', async (request: FastifyRequest, reply: FastifyReply) => {
     reply
-      .headers({ ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' })
-      .send({ models: GLM_MODELS });
+      .headers({ 'Content-Type': 'application/json; charset=utf-8' })
+      .send({ models: modelCatalog() });
   });
 
   // POST /api/show - Provides detailed information about a specific model.
@@ -32,13 +67,10 @@ export function registerMetaRoutes(app: FastifyInstance<any, any, any, any>) {
     const body = request.body as { model: string };
     const modelName = body?.model;
 
-    const model = GLM_MODELS.find((m: any) => m.model === modelName);
+    const model = modelCatalog().find((m) => m.model === modelName);
 
     if (!model) {
-      return reply
-        .code(404)
-        .headers(CORS_HEADERS)
-        .send({ error: `model '${modelName}' not found` });
+      return reply.code(404).send({ error: `model '${modelName}' not found` });
     }
 
     const modelBaseName = model.model.split(':')[0];
@@ -61,13 +93,348 @@ export function registerMetaRoutes(app: FastifyInstance<any, any, any, any>) {
         'general.basename': modelBaseName,
         'glm.context_length': contextLength, // <-- READ FROM JSON
       },
-      // NOTE: Capabilities are still hardcoded as Zhipu models generally support these.
-      // This could be made dynamic in the future if needed.
-      capabilities: ['tools', 'vision'],
+      capabilities: modelCapabilities(model),
     };
 
     reply
-      .headers({ ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' })
+      .headers({ 'Content-Type': 'application/json; charset=utf-8' })
       .send(response);
   });
+
+  // GET /v1/models - OpenAI model list, from the same catalog as /api/tags.
+  app.get('/v1/models', async (request: FastifyRequest, reply: FastifyReply) => {
+    reply.send({ object: 'list', data: modelCatalog().map(toOpenAIModel) });
+  });
+
+  // GET /v1/models/:id - A single OpenAI model; the id may carry the Ollama tag ("glm-4.6:latest").
+  app.get('/v1/models/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const model = modelCatalog().find((m) => m.model === id || openAIModelId(m) === id);
+
+    if (!model) {
+      return reply.code(404).send(toOpenAIError(modelNotFoundError(id)));
+    }
+    return reply.send(toOpenAIModel(model));
+  });
+
+  // POST /api/chat - Native Ollama chat. Streams NDJSON frames unless `stream: false` is sent.
+  app.post('/api/chat', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = parseOllamaRequest(request, reply);
+    if (!body) return;
+
+    const { model, messages = [], tools, options, format } = body;
+    if (!Array.isArray(messages)) {
+      return reply.code(400).send({ error: 'messages must be an array' });
+    }
+    const selectedModel = applyModelRules(model, requestAttributes(request, messages, tools));
+    const route = resolveModel(selectedModel);
+    if (!route) {
+      return reply.code(404).send(toOllamaError(modelNotFoundError(selectedModel)));
+    }
+
+    // An empty conversation is Ollama's "load the model" probe (or "unload" with keep_alive: 0).
+    // There is nothing to load upstream, so acknowledge it right away.
+    if (messages.length === 0) {
+      return reply.send({
+        model,
+        created_at: new Date().toISOString(),
+        message: { role: 'assistant', content: '' },
+        done_reason: isUnloadRequest(body) ? 'unload' : 'load',
+        done: true,
+      });
+    }
+
+    const zhipuReq: ZhipuChatRequest = {
+      model: route.model,
+      messages: toZhipuMessages(messages),
+      ...toZhipuParams(options, format),
+    };
+    if (Array.isArray(tools) && tools.length) {
+      zhipuReq.tools = tools;
+    }
+    applyRoute(zhipuReq, route, thinkingFromOllamaThink(body.think));
+
+    return relayOllamaReply(app, reply, '/api/chat', body, route, zhipuReq, {
+      payload: (content, toolCalls, thinking) => ({
+        message: { role: 'assistant', content, ...(thinking ? { thinking } : {}), ...(toolCalls ? { tool_calls: toolCalls } : {}) },
+      }),
+    });
+  });
+
+  // POST /api/generate - Raw prompt completion. Streams NDJSON frames unless `stream: false` is sent.
+  app.post('/api/generate', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = parseOllamaRequest(request, reply);
+    if (!body) return;
+
+    const { model, prompt, options, format } = body;
+    const selectedModel = applyModelRules(model, requestAttributes(request, [{ role: 'user', content: prompt ?? '', images: body.images }]));
+    const route = resolveModel(selectedModel);
+    if (!route) {
+      return reply.code(404).send(toOllamaError(modelNotFoundError(selectedModel)));
+    }
+
+    // As with /api/chat, an empty prompt only asks Ollama to load or unload the model.
+    if (!prompt && !body.suffix) {
+      return reply.send({
+        model,
+        created_at: new Date().toISOString(),
+        response: '',
+        done_reason: isUnloadRequest(body) ? 'unload' : 'load',
+        done: true,
+      });
+    }
+
+    const zhipuReq: ZhipuChatRequest = {
+      model: route.model,
+      messages: toZhipuGenerateMessages(body),
+      ...toZhipuParams(options, format),
+    };
+    applyRoute(zhipuReq, route, thinkingFromOllamaThink(body.think));
+
+    // Raw and templated prompts are self-contained, so (like Ollama) they get no context back.
+    const returnsContext = !body.raw && !body.template && !body.suffix;
+
+    return relayOllamaReply(app, reply, '/api/generate', body, route, zhipuReq, {
+      payload: (content, _toolCalls, thinking) => ({ response: content, ...(thinking ? { thinking } : {}) }),
+      final: (text) =>
+        returnsContext
+          ? { context: encodeContext([...decodeContext(body.context), { role: 'user', content: prompt }, { role: 'assistant', content: text }]) }
+          : {},
+    });
+  });
+}
+
+/**
+ * The model catalog plus an entry for each MODEL_ROUTES alias, described like the model it
+ * routes to. Aliases for models missing from the catalog are left out, as there is nothing to describe.
+ */
+function modelCatalog(): AnyObj[] {
+  const aliases = routeAliases().flatMap((route) => {
+    const target = findCatalogModel(route.model);
+    if (!target) return [];
+    const name = route.pattern.includes(':') ? route.pattern : `${route.pattern}:latest`;
+    return [{ ...target.entry, name, model: name }];
+  });
+  return [...catalogModels().map((m) => m.entry), ...aliases];
+}
+
+// OpenAI clients use names without Ollama's default tag, but keep other tags ("coder:fast").
+function openAIModelId(model: AnyObj): string {
+  return model.model.replace(/:latest$/, '');
+}
+
+/**
+ * Ollama capability names for a catalog entry. Zhipu chat models generally support tools
+ * and vision, so those are assumed; other providers' models are only assumed to support
+ * tools. Thinking follows supportsThinking.
+ */
+function modelCapabilities(model: AnyObj): string[] {
+  if (model.details?.family === 'embedding') return ['embedding'];
+  const resolved = resolveModel(model.model);
+  const upstreamModel = resolved?.model ?? normalizeModelName(model.model);
+  const thinking = supportsThinking(upstreamModel) ? ['thinking'] : [];
+  if (resolved && resolved.provider !== ZHIPU_PROVIDER) return ['tools', ...thinking];
+  return ['tools', 'vision', ...thinking];
+}
+
+// OpenAI model object for a catalog entry, with the gateway's capability flags alongside.
+function toOpenAIModel(model: AnyObj) {
+  const capabilities = modelCapabilities(model);
+  const provider = findCatalogModel(model.model)?.provider ?? ZHIPU_PROVIDER;
+  return {
+    id: openAIModelId(model),
+    object: 'model',
+    created: Math.floor(Date.parse(model.modified_at) / 1000) || 0,
+    owned_by: provider === ZHIPU_PROVIDER ? 'zhipuai' : provider,
+    context_length: model.details?.context_length,
+    capabilities: {
+      tools: capabilities.includes('tools'),
+      vision: capabilities.includes('vision'),
+      reasoning: capabilities.includes('thinking'),
+      embedding: capabilities.includes('embedding'),
+    },
+  };
+}
+
+// Describes how one Ollama endpoint wraps generated output into its frames.
+interface OllamaFrameShape {
+  // Endpoint-specific part of a frame carrying generated text, reasoning (`thinking`) and, for chat, finished tool calls.
+  payload(content: string, toolCalls?: OllamaToolCall[], thinking?: string): AnyObj;
+  // Extra fields for the final frame, given the full generated text.
+  final?(text: string): AnyObj;
+}
+
+/** Parse an Ollama request body and check for a model; replies with 400 and returns undefined otherwise. */
+function parseOllamaRequest(request: FastifyRequest, reply: FastifyReply): AnyObj | undefined {
+  let body: AnyObj;
+  try {
+    body = readJsonBody(request);
+  } catch {
+    reply.code(400).send({ error: 'invalid JSON request body' });
+    return undefined;
+  }
+  if (!body.model) {
+    reply.code(400).send({ error: 'model is required' });
+    return undefined;
+  }
+  return body;
+}
+
+function isUnloadRequest(body: AnyObj): boolean {
+  return body.keep_alive === 0 || body.keep_alive === '0';
+}
+
+/**
+ * Call the model's provider (or its fallbacks) and answer in Ollama's format: a single object when
+ * the client sent `stream: false`, otherwise NDJSON frames ending with a `done: true` frame carrying stats.
+ * GLM reasoning is shaped by the reasoning mode as on /v1/chat/completions, `separate` putting it in
+ * Ollama's `thinking` field.
+ */
+async function relayOllamaReply(
+  app: FastifyInstance<any, any, any, any>,
+  reply: FastifyReply,
+  route: string,
+  body: AnyObj,
+  target: ResolvedModel,
+  zhipuReq: ZhipuChatRequest,
+  shape: OllamaFrameShape,
+) {
+  const model = body.model;
+  const startedAt = process.hrtime.bigint();
+  const reasoningMode = resolveReasoningMode(zhipuReq.model, body.reasoning_mode ?? reply.request.headers['x-reasoning-mode']);
+
+  let text = '';
+  let usage: AnyObj | undefined;
+  const partialUsage = () => ({
+    model: zhipuReq.model,
+    prompt_tokens: usage?.prompt_tokens ?? estimatePromptTokens(zhipuReq.messages),
+    completion_tokens: usage?.completion_tokens ?? estimateTokens(text),
+  });
+  const signal = cancelOnDisconnect(reply, () => {
+    app.log.info(partialUsage(), `Client disconnected, cancelled upstream request for ${route}`);
+  });
+  const onRetry = (retries: number) => reply.raw.setHeader('X-Upstream-Retries', String(retries));
+  const onModel = (upstreamModel: string) => reply.raw.setHeader('X-Upstream-Model', upstreamModel);
+
+  if (body.stream === false) {
+    try {
+      const zhipuResp = await withFallbacks(target, zhipuReq, (provider, callOptions) => provider.chatOnce(zhipuReq, { signal, onRetry, ...callOptions }), { signal, onModel });
+      const choice = zhipuResp.choices?.[0];
+      const text = typeof choice?.message?.content === 'string' ? choice.message.content : '';
+      const reasoning = typeof choice?.message?.reasoning_content === 'string' ? choice.message.reasoning_content : undefined;
+      const shaped = applyReasoningMode(text, reasoning, reasoningMode);
+
+      return reply.send({
+        model,
+        created_at: new Date().toISOString(),
+        ...shape.payload(shaped.content, toOllamaToolCalls(choice?.message?.tool_calls), shaped.reasoning_content),
+        done_reason: toOllamaDoneReason(choice?.finish_reason),
+        done: true,
+        ...shape.final?.(text),
+        ...ollamaStats(startedAt, undefined, zhipuResp.usage),
+      });
+    } catch (error: any) {
+      if (signal.aborted) return;
+      app.log.error(error, `Error calling Zhipu API for ${route}`);
+      const upstreamError = await translateUpstreamError(error);
+      return reply.code(upstreamError.status).send(toOllamaError(upstreamError));
+    }
+  }
+
+  let zhipuStreamResponse;
+  try {
+    zhipuStreamResponse = await withFallbacks(target, zhipuReq, (provider, callOptions) => provider.chatStream(zhipuReq, { signal, onRetry, ...callOptions }), { signal, onModel });
+  } catch (error: any) {
+    if (signal.aborted) return;
+    app.log.error(error, `Error initiating stream with Zhipu API for ${route}`);
+    const upstreamError = await translateUpstreamError(error);
+    return reply.code(upstreamError.status).send(toOllamaError(upstreamError));
+  }
+
+  const writeFrame = createNdjsonWriter(reply);
+  const frame = (fields: AnyObj) => ({ model, created_at: new Date().toISOString(), ...fields });
+
+  // Ollama delivers each tool call whole, so argument fragments are collected until the stream ends.
+  const toolCalls: ChatCompletionToolCall[] = [];
+  const reasoning = createReasoningStreamer(reasoningMode);
+  let firstTokenAt: bigint | undefined;
+  let finishReason: string | undefined;
+  let failed = false;
+
+  // Like Ollama itself, a stream that breaks off ends with an `{error}` line instead of a done frame.
+  const failStream = (upstreamError: GatewayError) => {
+    if (failed || reply.raw.writableEnded) return;
+    failed = true;
+    app.log.warn({ ...partialUsage(), error: upstreamError }, `Upstream stream failed mid-response for ${route}`);
+    writeFrame(toOllamaError(upstreamError));
+    endNdjson(reply);
+  };
+
+  zhipuStreamResponse.data.on('data', createSseDataParser((data, line) => {
+    if (failed) return;
+    try {
+      const zhipuChunk = JSON.parse(data);
+      if (zhipuChunk.usage) usage = zhipuChunk.usage;
+      if (zhipuChunk.error) {
+        failStream(translateErrorBody(zhipuChunk, 502));
+        return;
+      }
+
+      const choice = zhipuChunk.choices?.[0];
+      if (!choice) return;
+      const delta = choice.delta || {};
+
+      // `text` is the answer alone: it goes into /api/generate's context.
+      if (typeof delta.content === 'string') text += delta.content;
+      const shaped = reasoning.delta(delta.reasoning_content, delta.content);
+      if (shaped.content || shaped.reasoning_content) {
+        firstTokenAt ??= process.hrtime.bigint();
+        writeFrame(frame({ ...shape.payload(shaped.content ?? '', undefined, shaped.reasoning_content), done: false }));
+      }
+
+      if (Array.isArray(delta.tool_calls)) {
+        firstTokenAt ??= process.hrtime.bigint();
+        delta.tool_calls.forEach((toolDelta: AnyObj, position: number) => {
+          const index = typeof toolDelta.index === 'number' ? toolDelta.index : position;
+          const call = (toolCalls[index] ??= { id: toolDelta.id, type: 'function', function: { name: '', arguments: '' } });
+          if (toolDelta.function?.name) call.function.name = toolDelta.function.name;
+          if (typeof toolDelta.function?.arguments === 'string') call.function.arguments += toolDelta.function.arguments;
+        });
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    } catch (e) {
+      app.log.warn({ error: e, line }, 'Failed to parse or process upstream SSE chunk');
+    }
+  }));
+
+  zhipuStreamResponse.data.on('end', () => {
+    if (failed || reply.raw.writableEnded) return;
+    if (!finishReason) {
+      failStream(INCOMPLETE_STREAM_ERROR);
+      return;
+    }
+    const closingThink = reasoning.finish();
+    if (closingThink) {
+      writeFrame(frame({ ...shape.payload(closingThink), done: false }));
+    }
+    const calls = toOllamaToolCalls(toolCalls.filter(Boolean));
+    if (calls) {
+      writeFrame(frame({ ...shape.payload('', calls), done: false }));
+    }
+    writeFrame(frame({
+      ...shape.payload(''),
+      done_reason: toOllamaDoneReason(finishReason),
+      done: true,
+      ...shape.final?.(text),
+      ...ollamaStats(startedAt, firstTokenAt, usage),
+    }));
+    endNdjson(reply);
+  });
+
+  zhipuStreamResponse.data.on('error', async (err: Error) => {
+    if (signal.aborted) return;
+    app.log.error(err, `Upstream stream connection error for ${route}`);
+    failStream(await translateUpstreamError(err));
+  });
 }
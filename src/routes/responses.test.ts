@@ -0,0 +1,392 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Readable } from 'stream';
+import supertest from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { AxiosResponse } from 'axios';
+import { buildServer } from '../server';
+import { sseEvent, sseStream } from './test-helpers';
+import * as zhipu from '../zhipu';
+import { config } from '../config';
+import { resetLimits } from '../limits';
+
+// Mock the zhipu module
+vi.mock('../zhipu', () => ({
+  zhipuChatOnce: vi.fn(),
+  zhipuChatStream: vi.fn(),
+  normalizeModelName: vi.fn((model: string) => model),
+}));
+const mockedZhipuChatOnce = vi.mocked(zhipu.zhipuChatOnce);
+const mockedZhipuChatStream = vi.mocked(zhipu.zhipuChatStream);
+
+// Parse a Responses SSE body into its events, checking that each `event:` line matches the payload type.
+const parseEvents = (text: string) =>
+  text
+    .trim()
+    .split('\n\n')
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n');
+      const event = JSON.parse(dataLine.replace(/^data: /, ''));
+      expect(eventLine).toBe(`event: ${event.type}`);
+      return event;
+    });
+
+describe('Responses Routes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    // Set a dummy API key to prevent config initialization from failing
+    process.env.ZHIPUAI_API_KEY = 'dummy-test-key';
+    app = await buildServer();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('POST /v1/responses (non-stream) returns a response object with output items', async () => {
+    mockedZhipuChatOnce.mockResolvedValueOnce({
+      id: 'upstream-1',
+      created: 1,
+      model: 'glm-4.6',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello response!' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 8, completion_tokens: 4, total_tokens: 12 },
+    });
+
+    const response = await supertest(app.server)
+      .post('/v1/responses')
+      .send({ model: 'glm-4.6:latest', instructions: 'Be kind.', input: 'Hi', max_output_tokens: 50 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      object: 'response',
+      status: 'completed',
+      model: 'glm-4.6:latest',
+      instructions: 'Be kind.',
+      usage: { input_tokens: 8, output_tokens: 4, total_tokens: 12 },
+    });
+    expect(response.body.id).toMatch(/^resp_/);
+    expect(response.body.output).toHaveLength(1);
+    expect(response.body.output[0]).toMatchObject({
+      type: 'message',
+      role: 'assistant',
+      status: 'completed',
+      content: [{ type: 'output_text', text: 'Hello response!', annotations: [] }],
+    });
+
+    const forwarded = mockedZhipuChatOnce.mock.calls.at(-1)![0];
+    expect(forwarded.messages).toEqual([
+      { role: 'system', content: 'Be kind.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+    expect(forwarded.max_tokens).toBe(50);
+  });
+
+  it('POST /v1/responses converts function_call items and flat tools for Zhipu', async () => {
+    mockedZhipuChatOnce.mockResolvedValueOnce({
+      id: 'upstream-2',
+      created: 1,
+      model: 'glm-4.6',
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_next', type: 'function', function: { name: 'read_file', arguments: '{"path":"b.ts"}' } }],
+        },
+        finish_reason: 'tool_calls',
+      }],
+    });
+
+    const tools = [{ type: 'function', name: 'read_file', description: 'Read a file', parameters: { type: 'object' } }, { type: 'web_search' }];
+    const response = await supertest(app.server)
+      .post('/v1/responses')
+      .send({
+        model: 'glm-4.6',
+        tools,
+        tool_choice: { type: 'function', name: 'read_file' },
+        input: [
+          { role: 'developer', content: [{ type: 'input_text', text: 'Use tools.' }] },
+          { role: 'user', content: [{ type: 'input_text', text: 'Read a.ts' }] },
+          { type: 'function_call', call_id: 'call_a', name: 'read_file', arguments: '{"path":"a.ts"}' },
+          { type: 'function_call_output', call_id: 'call_a', output: 'export {}' },
+        ],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.tools).toEqual(tools);
+    expect(response.body.output).toEqual([
+      expect.objectContaining({ type: 'function_call', call_id: 'call_next', name: 'read_file', arguments: '{"path":"b.ts"}', status: 'completed' }),
+    ]);
+    expect(response.body.output[0].id).toMatch(/^fc_/);
+
+    const forwarded = mockedZhipuChatOnce.mock.calls.at(-1)![0];
+    expect(forwarded.tools).toEqual([
+      { type: 'function', function: { name: 'read_file', description: 'Read a file', parameters: { type: 'object' } } },
+    ]);
+    expect(forwarded.tool_choice).toEqual({ type: 'function', function: { name: 'read_file' } });
+    expect(forwarded.messages).toEqual([
+      { role: 'system', content: 'Use tools.' },
+      { role: 'user', content: 'Read a.ts' },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call_a', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }] },
+      { role: 'tool', tool_call_id: 'call_a', content: 'export {}' },
+    ]);
+  });
+
+  it('POST /v1/responses reports truncated output as incomplete', async () => {
+    mockedZhipuChatOnce.mockResolvedValueOnce({
+      id: 'upstream-3',
+      created: 1,
+      model: 'glm-4.6',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Once upon' }, finish_reason: 'length' }],
+    });
+
+    const response = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Story' });
+
+    expect(response.body.status).toBe('incomplete');
+    expect(response.body.incomplete_details).toEqual({ reason: 'max_output_tokens' });
+  });
+
+  it('POST /v1/responses (stream) emits typed text events ending with response.completed', async () => {
+    mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+      { id: 'u', choices: [{ index: 0, delta: { role: 'assistant', content: 'Hel' } }] },
+      { id: 'u', choices: [{ index: 0, delta: { content: 'lo' } }] },
+      { id: 'u', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } },
+    ]));
+
+    const response = await supertest(app.server)
+      .post('/v1/responses')
+      .send({ model: 'glm-4.5', input: [{ role: 'user', content: 'Hi' }], stream: true });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+
+    const events = parseEvents(response.text);
+    expect(events.map((e) => e.type)).toEqual([
+      'response.created',
+      'response.in_progress',
+      'response.output_item.added',
+      'response.content_part.added',
+      'response.output_text.delta',
+      'response.output_text.delta',
+      'response.output_text.done',
+      'response.content_part.done',
+      'response.output_item.done',
+      'response.completed',
+    ]);
+    expect(events.map((e) => e.sequence_number)).toEqual(events.map((_, i) => i));
+    expect(events[6].text).toBe('Hello');
+
+    const completed = events.at(-1).response;
+    expect(completed.status).toBe('completed');
+    expect(completed.output[0].content[0].text).toBe('Hello');
+    expect(completed.usage).toMatchObject({ input_tokens: 3, output_tokens: 2 });
+  });
+
+  it('POST /v1/responses (stream) streams function call arguments per call', async () => {
+    mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'search', arguments: '{"q":' } }] } }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"cats"}' } }] } }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 1, id: 'call_2', function: { name: 'open', arguments: '{}' } }] } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+    ]));
+
+    const response = await supertest(app.server)
+      .post('/v1/responses')
+      .send({ model: 'glm-4.5', input: 'Find cats', stream: true });
+
+    const events = parseEvents(response.text);
+    const added = events.filter((e) => e.type === 'response.output_item.added');
+    expect(added.map((e) => [e.output_index, e.item.type, e.item.call_id, e.item.name])).toEqual([
+      [0, 'function_call', 'call_1', 'search'],
+      [1, 'function_call', 'call_2', 'open'],
+    ]);
+    expect(events.filter((e) => e.type === 'response.function_call_arguments.delta').map((e) => e.delta)).toEqual(['{"q":', '"cats"}', '{}']);
+    expect(events.filter((e) => e.type === 'response.function_call_arguments.done').map((e) => e.arguments)).toEqual(['{"q":"cats"}', '{}']);
+    expect(events.at(-1).response.output.map((item: { arguments: string }) => item.arguments)).toEqual(['{"q":"cats"}', '{}']);
+  });
+
+  it('POST /v1/responses (stream) emits response.failed when the upstream stream breaks', async () => {
+    const upstream = new Readable({ read() {} });
+    mockedZhipuChatStream.mockResolvedValueOnce({ data: upstream } as AxiosResponse);
+    setTimeout(() => {
+      upstream.push(sseEvent({ choices: [{ index: 0, delta: { content: 'partial' } }] }));
+      setTimeout(() => upstream.destroy(new Error('socket hang up')), 10);
+    }, 10);
+
+    const response = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.5', input: 'Hi', stream: true });
+
+    const events = parseEvents(response.text);
+    expect(events.at(-1)).toMatchObject({ type: 'response.failed', response: { status: 'failed', error: { code: 'upstream_error', message: 'Upstream API error: socket hang up' } } });
+  });
+
+  it('POST /v1/responses surfaces GLM reasoning as a reasoning item', async () => {
+    mockedZhipuChatStream.mockResolvedValueOnce(sseStream([
+      { choices: [{ index: 0, delta: { reasoning_content: 'Think' } }] },
+      { choices: [{ index: 0, delta: { content: 'Answer' } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+    ]));
+
+    const response = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.5', input: 'Why?', stream: true });
+
+    const events = parseEvents(response.text);
+    expect(events.find((e) => e.type === 'response.reasoning_text.delta')).toMatchObject({ output_index: 0, delta: 'Think' });
+    expect(events.at(-1).response.output.map((item: { type: string }) => item.type)).toEqual(['reasoning', 'message']);
+  });
+
+  it('POST /v1/responses validates model and input', async () => {
+    const missingModel = await supertest(app.server).post('/v1/responses').send({ input: 'Hi' });
+    expect(missingModel.status).toBe(400);
+    expect(missingModel.body.error).toMatchObject({ message: 'Missing "model" in request body', type: 'invalid_request_error', param: 'model' });
+
+    const badInput = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 42 });
+    expect(badInput.status).toBe(400);
+    expect(badInput.body.error.message).toBe('"input" must be a string or an array of items');
+  });
+
+  it('POST /v1/responses returns 502 when Zhipu fails', async () => {
+    mockedZhipuChatOnce.mockRejectedValueOnce(new Error('Zhipu API is down'));
+
+    const response = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi' });
+
+    expect(response.status).toBe(502);
+    expect(response.body.error).toMatchObject({ type: 'api_error', message: 'Upstream API error: Zhipu API is down' });
+  });
+
+  describe('stored responses', () => {
+    const reply = (content: string) => ({
+      id: 'upstream',
+      created: 1,
+      model: 'glm-4.6',
+      choices: [{ index: 0, message: { role: 'assistant' as const, content }, finish_reason: 'stop' }],
+    });
+
+    it('continues a conversation from previous_response_id', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce(reply('Hi Ada!'));
+      const first = await supertest(app.server)
+        .post('/v1/responses')
+        .send({ model: 'glm-4.6', instructions: 'Be terse.', input: 'I am Ada.' });
+
+      mockedZhipuChatOnce.mockResolvedValueOnce(reply('Ada.'));
+      const second = await supertest(app.server)
+        .post('/v1/responses')
+        .send({ model: 'glm-4.6', previous_response_id: first.body.id, input: 'What is my name?' });
+
+      expect(second.status).toBe(200);
+      expect(second.body.previous_response_id).toBe(first.body.id);
+      // Instructions belong to the first request only and are not carried over.
+      expect(mockedZhipuChatOnce.mock.calls.at(-1)![0].messages).toEqual([
+        { role: 'user', content: 'I am Ada.' },
+        { role: 'assistant', content: 'Hi Ada!' },
+        { role: 'user', content: 'What is my name?' },
+      ]);
+    });
+
+    it('returns 404 for an unknown previous_response_id', async () => {
+      const response = await supertest(app.server)
+        .post('/v1/responses')
+        .send({ model: 'glm-4.6', previous_response_id: 'resp_missing', input: 'Hi' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.message).toContain('resp_missing');
+    });
+
+    it('GET and DELETE /v1/responses/:id fetch and forget stored responses', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce(reply('Stored'));
+      const created = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi' });
+
+      const fetched = await supertest(app.server).get(`/v1/responses/${created.body.id}`);
+      expect(fetched.status).toBe(200);
+      expect(fetched.body).toEqual(created.body);
+
+      const deleted = await supertest(app.server).delete(`/v1/responses/${created.body.id}`);
+      expect(deleted.body).toEqual({ id: created.body.id, object: 'response.deleted', deleted: true });
+      expect((await supertest(app.server).get(`/v1/responses/${created.body.id}`)).status).toBe(404);
+      expect((await supertest(app.server).delete(`/v1/responses/${created.body.id}`)).status).toBe(404);
+    });
+
+    it('does not keep responses created with store: false', async () => {
+      mockedZhipuChatOnce.mockResolvedValueOnce(reply('Ephemeral'));
+      const created = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi', store: false });
+
+      expect(created.body.store).toBe(false);
+      expect((await supertest(app.server).get(`/v1/responses/${created.body.id}`)).status).toBe(404);
+    });
+
+    it('runs background responses asynchronously and lets clients poll them', async () => {
+      let release: () => void = () => {};
+      mockedZhipuChatOnce.mockImplementationOnce(() => new Promise((resolve) => {
+        release = () => resolve(reply('Done in the background'));
+      }));
+
+      const queued = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Long task', background: true });
+      expect(queued.status).toBe(200);
+      expect(queued.body).toMatchObject({ status: 'queued', background: true, output: [] });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect((await supertest(app.server).get(`/v1/responses/${queued.body.id}`)).body.status).toBe('in_progress');
+
+      release();
+      await new Promise((resolve) => setImmediate(resolve));
+      const finished = await supertest(app.server).get(`/v1/responses/${queued.body.id}`);
+      expect(finished.body.status).toBe('completed');
+      expect(finished.body.output[0].content[0].text).toBe('Done in the background');
+    });
+
+    it('records failed background responses and rejects background without store', async () => {
+      mockedZhipuChatOnce.mockRejectedValueOnce(new Error('quota exceeded'));
+      const queued = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi', background: true });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const failed = await supertest(app.server).get(`/v1/responses/${queued.body.id}`);
+      expect(failed.body).toMatchObject({ status: 'failed', error: { code: 'upstream_error', message: 'Upstream API error: quota exceeded' } });
+
+      const rejected = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi', background: true, store: false });
+      expect(rejected.status).toBe(400);
+
+      const streamed = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi', background: true, stream: true });
+      expect(streamed.status).toBe(400);
+    });
+
+    it('cancels a background response that is deleted before it finishes', async () => {
+      let release: () => void = () => {};
+      let upstreamSignal: AbortSignal | undefined;
+      mockedZhipuChatOnce.mockImplementationOnce((_req, options) => new Promise((resolve) => {
+        upstreamSignal = options?.signal;
+        release = () => resolve(reply('Too late'));
+      }));
+
+      const queued = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Long task', background: true });
+      await new Promise((resolve) => setImmediate(resolve));
+      expect((await supertest(app.server).delete(`/v1/responses/${queued.body.id}`)).status).toBe(200);
+      expect(upstreamSignal?.aborted).toBe(true);
+
+      release();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect((await supertest(app.server).get(`/v1/responses/${queued.body.id}`)).status).toBe(404);
+    });
+
+    it('keeps a background response under the concurrency limit until it settles', async () => {
+      const limits = { RATE_LIMIT_CONCURRENCY: config.RATE_LIMIT_CONCURRENCY, RATE_LIMIT_QUEUE_TIMEOUT_MS: config.RATE_LIMIT_QUEUE_TIMEOUT_MS };
+      Object.assign(config, { RATE_LIMIT_CONCURRENCY: 1, RATE_LIMIT_QUEUE_TIMEOUT_MS: 0 });
+      let release: () => void = () => {};
+      mockedZhipuChatOnce.mockImplementationOnce(() => new Promise((resolve) => {
+        release = () => resolve(reply('Done in the background'));
+      }));
+
+      try {
+        const queued = await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Long task', background: true });
+        expect(queued.status).toBe(200);
+        expect((await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi' })).status).toBe(429);
+
+        mockedZhipuChatOnce.mockResolvedValueOnce(reply('Next'));
+        release();
+        await new Promise((resolve) => setImmediate(resolve));
+        expect((await supertest(app.server).post('/v1/responses').send({ model: 'glm-4.6', input: 'Hi' })).status).toBe(200);
+      } finally {
+        Object.assign(config, limits);
+        resetLimits();
+      }
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { ZhipuCallOptions, ZhipuChatMessage, ZhipuChatRequest } from '../zhipu';
+import { createSseDataParser } from '../sse';
+import { cancelOnDisconnect } from '../cancel';
+import { translateUpstreamError, invalidRequestError, translateErrorBody, toOpenAIError, INCOMPLETE_STREAM_ERROR } from '../errors';
+import { estimatePromptTokens, estimateTokens } from '../tokens';
+import { getStoredResponse, saveResponse, deleteStoredResponse } from '../store';
+import { resolveModel, modelNotFoundError } from '../routing';
+import { withFallbacks, applyRoute } from '../fallback';
+import { applyModelRules, requestAttributes } from '../rules';
+import { holdSlot } from '../limits';
+import { thinkingFromReasoningEffort } from '../reasoning';
+import {
+  createResponseObject,
+  createResponseEventTranslator,
+  toZhipuMessagesFromInput,
+  toZhipuParamsFromResponsesRequest,
+  toResponseOutput,
+  toResponseStatus,
+  toResponseUsage,
+  ResponseObject,
+  ResponseStreamEvent,
+} from '../responses';
+
+type AnyObj = Record<string, any>;
+
+// Background responses still running, by response id; deleting one cancels its upstream call.
+const backgroundJobs = new Map<string, AbortController>();
+
+export function registerResponsesRoutes(app: FastifyInstance<any, any, any, any>) {
+  // POST /v1/responses - OpenAI Responses API on top of Zhipu chat completions.
+  app.post('/v1/responses', async (request: FastifyRequest, reply: FastifyReply) => {
+    let openaiReq: AnyObj;
+    try {
+      const body = request.body as unknown;
+      if (Buffer.isBuffer(body)) {
+        openaiReq = JSON.parse(body.toString('utf8'));
+      } else if (typeof body === 'string') {
+        openaiReq = JSON.parse(body);
+      } else {
+        openaiReq = (body as AnyObj) || {};
+      }
+    } catch (error) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Invalid JSON request body')));
+    }
+
+    const requestedModel = openaiReq.model;
+    // Early gateway clients posted chat-style `messages`; those are valid input items too.
+    const input = openaiReq.input ?? openaiReq.messages;
+
+    if (!requestedModel) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Missing "model" in request body', 'model')));
+    }
+    if (typeof input !== 'string' && !Array.isArray(input)) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('"input" must be a string or an array of items', 'input')));
+    }
+    if (openaiReq.background && openaiReq.store === false) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Background responses require "store" to be true', 'store')));
+    }
+    if (openaiReq.background && openaiReq.stream) {
+      return reply.code(400).send(toOpenAIError(invalidRequestError('Background responses cannot be streamed; poll GET /v1/responses/:id instead', 'stream')));
+    }
+
+    // Continuing from a stored response replaces resending the whole history.
+    let history: ZhipuChatMessage[] = [];
+    if (openaiReq.previous_response_id) {
+      const previous = getStoredResponse(openaiReq.previous_response_id);
+      if (!previous) {
+        return reply
+          .code(404)
+          .send(toOpenAIError(invalidRequestError(`Previous response with id '${openaiReq.previous_response_id}' not found`, 'previous_response_id', 404)));
+      }
+      history = previous.messages;
+    }
+
+    const conversation = [...history, ...toZhipuMessagesFromInput(input)];
+    const selectedModel = applyModelRules(requestedModel, requestAttributes(request, conversation, openaiReq.tools));
+    const route = resolveModel(selectedModel);
+    if (!route) {
+      return reply.code(404).send(toOpenAIError(modelNotFoundError(selectedModel)));
+    }
+    const zhipuReq: ZhipuChatRequest = {
+      model: route.model,
+      messages: openaiReq.instructions ? [{ role: 'system', content: String(openaiReq.instructions) }, ...conversation] : conversation,
+      ...toZhipuParamsFromResponsesRequest(openaiReq),
+    };
+    applyRoute(zhipuReq, route, thinkingFromReasoningEffort(openaiReq.reasoning?.effort));
+    const response = createResponseObject(openaiReq, requestedModel);
+
+    // Store the response together with the conversation it ends, so follow-ups can build on it.
+    const remember = (finished: ResponseObject) => {
+      if (openaiReq.store === false) return;
+      saveResponse({ response: finished, messages: [...conversation, ...toZhipuMessagesFromInput(finished.output)] });
+    };
+
+    const complete = async (options: ZhipuCallOptions = {}, onModel?: (model: string) => void) => {
+      const zhipuResp = await withFallbacks(route, zhipuReq, (provider, callOptions) => provider.chatOnce(zhipuReq, { ...options, ...callOptions }), { signal: options.signal, onModel });
+      // A background response deleted while the call was finishing stays deleted.
+      if (options.signal?.aborted) return;
+      Object.assign(response, toResponseStatus(zhipuResp.choices?.[0]?.finish_reason), {
+        output: toResponseOutput(zhipuResp),
+        usage: toResponseUsage(zhipuResp.usage),
+      });
+      remember(response);
+    };
+
+    if (openaiReq.background) {
+      // --- BACKGROUND RESPONSE (poll with GET /v1/responses/:id) ---
+      // It outlives the request; DELETE /v1/responses/:id aborts it, and nothing is stored after that.
+      // It keeps its rate limit slot until it settles, not just until this reply is sent.
+      const job = new AbortController();
+      const releaseSlot = holdSlot(request);
+      backgroundJobs.set(response.id, job);
+      response.status = 'queued';
+      remember(response);
+      setImmediate(async () => {
+        try {
+          if (job.signal.aborted) return;
+          response.status = 'in_progress';
+          await complete({ signal: job.signal });
+        } catch (error: any) {
+          if (job.signal.aborted) return;
+          app.log.error(error, `Background response ${response.id} failed`);
+          const upstreamError = await translateUpstreamError(error);
+          Object.assign(response, { status: 'failed', error: { code: upstreamError.code ?? 'server_error', message: upstreamError.message } });
+          remember(response);
+        } finally {
+          backgroundJobs.delete(response.id);
+          releaseSlot();
+        }
+      });
+      return reply.code(200).send(response);
+    }
+
+    // Background responses outlive the request; everything else is cancelled when the client leaves.
+    const signal = cancelOnDisconnect(reply, () => {
+      const text = response.output.flatMap((item: AnyObj) => item.content ?? []).map((part: AnyObj) => part.text ?? '').join('');
+      app.log.info({
+        model: zhipuReq.model,
+        prompt_tokens: estimatePromptTokens(zhipuReq.messages),
+        completion_tokens: estimateTokens(text),
+      }, 'Client disconnected, cancelled upstream request for /v1/responses');
+    });
+    const onRetry = (retries: number) => reply.raw.setHeader('X-Upstream-Retries', String(retries));
+    const onModel = (model: string) => reply.raw.setHeader('X-Upstream-Model', model);
+
+    if (openaiReq.stream) {
+      // --- STREAMING RESPONSE (typed SSE events) ---
+      try {
+        const zhipuStreamResponse = await withFallbacks(route, zhipuReq, (provider, callOptions) => provider.chatStream(zhipuReq, { signal, onRetry, ...callOptions }), {
+          signal,
+          onModel,
+        });
+
+        reply.raw.writeHead(200, {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+
+        const writeEvent = (event: ResponseStreamEvent) => reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        const translator = createResponseEventTranslator(response, writeEvent);
+
+        // A stream that breaks off ends with `response.failed`, so clients can tell it from a finished one.
+        let finished = false;
+        const failStream = (code: string | null, message: string) => {
+          if (reply.raw.writableEnded) return;
+          app.log.warn({ model: zhipuReq.model, usage: response.usage, code, message }, 'Upstream stream failed mid-response for /v1/responses');
+          remember(translator.fail({ code: code ?? 'server_error', message }));
+          reply.raw.end();
+        };
+
+        zhipuStreamResponse.data.on('data', createSseDataParser((dataStr, line) => {
+          if (reply.raw.writableEnded) return;
+          try {
+            const zhipuChunk = JSON.parse(dataStr);
+            if (zhipuChunk.error) {
+              const upstreamError = translateErrorBody(zhipuChunk, 502);
+              failStream(upstreamError.code, upstreamError.message);
+              return;
+            }
+            if (zhipuChunk.choices?.[0]?.finish_reason) finished = true;
+            translator.onChunk(zhipuChunk);
+          } catch (e) {
+            app.log.warn({ error: e, line }, 'Failed to parse or process upstream SSE chunk');
+          }
+        }));
+
+        zhipuStreamResponse.data.on('end', () => {
+          if (reply.raw.writableEnded) return;
+          if (!finished) {
+            failStream(INCOMPLETE_STREAM_ERROR.code, INCOMPLETE_STREAM_ERROR.message);
+            return;
+          }
+          remember(translator.finish());
+          reply.raw.end();
+        });
+
+        zhipuStreamResponse.data.on('error', async (err: Error) => {
+          if (signal.aborted) return;
+          app.log.error(err, 'Upstream stream connection error');
+          const upstreamError = await translateUpstreamError(err);
+          failStream(upstreamError.code, upstreamError.message);
+        });
+      } catch (error: any) {
+        if (signal.aborted) return;
+        app.log.error(error, 'Error initiating stream with Zhipu API for /v1/responses');
+        if (!reply.raw.headersSent) {
+          const upstreamError = await translateUpstreamError(error);
+          reply.code(upstreamError.status).send(toOpenAIError(upstreamError));
+        } else if (!reply.raw.writableEnded) {
+          reply.raw.end();
+        }
+      }
+    } else {
+      // --- NON-STREAMING RESPONSE ---
+      try {
+        await complete({ signal, onRetry }, onModel);
+        return reply.code(200).send(response);
+      } catch (error: any) {
+        if (signal.aborted) return;
+        app.log.error(error, 'Error calling Zhipu API for /v1/responses');
+        const upstreamError = await translateUpstreamError(error);
+        return reply.code(upstreamError.status).send(toOpenAIError(upstreamError));
+      }
+    }
+  });
+
+  // GET /v1/responses/:id - Fetch a stored response (also how background responses are polled).
+  app.get('/v1/responses/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const stored = getStoredResponse(request.params.id);
+    if (!stored) {
+      return reply.code(404).send(toOpenAIError(invalidRequestError(`Response with id '${request.params.id}' not found`, null, 404)));
+    }
+    return reply.code(200).send(stored.response);
+  });
+
+  // DELETE /v1/responses/:id - Forget a stored response, cancelling it if it is still running in the background.
+  app.delete('/v1/responses/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    backgroundJobs.get(request.params.id)?.abort();
+    if (!deleteStoredResponse(request.params.id)) {
+      return reply.code(404).send(toOpenAIError(invalidRequestError(`Response with id '${request.params.id}' not found`, null, 404)));
+    }
+    return reply.code(200).send({ id: request.params.id, object: 'response.deleted', deleted: true });
+  });
+}
@@ -0,0 +1,18 @@
+import { Readable } from 'stream';
+import type { AxiosResponse } from 'axios';
+
+// Fixtures shared by the route tests.
+
+/** One upstream SSE event carrying `payload`. */
+export const sseEvent = (payload: object) => `data: ${JSON.stringify(payload)}\n\n`;
+
+/** Upstream SSE stream made of the given chunks, terminated by [DONE]. */
+export const sseStream = (chunks: object[]) =>
+  ({ data: Readable.from([...chunks.map(sseEvent), 'data: [DONE]\n\n']) }) as AxiosResponse;
+
+/** Parse an SSE body into its JSON payloads, dropping the [DONE] marker. */
+export const parseSseChunks = (text: string) =>
+  text
+    .split('\n\n')
+    .filter((block) => block.startsWith('data: {'))
+    .map((block) => JSON.parse(block.slice(6)));
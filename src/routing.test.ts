@@ -0,0 +1,51 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { config, parseModelRoutes } from './config';
+import { resolveModel, applyRouteDefaults, routeAliases } from './routing';
+import { setProviderModels, clearProviderModels } from './catalog';
+
+describe('model routing', () => {
+  afterEach(() => {
+    config.MODEL_ROUTES = [];
+    clearProviderModels();
+  });
+
+  it('passes Zhipu model names through and rejects unknown ones', () => {
+    expect(resolveModel('glm-4.6:latest')).toEqual({ model: 'glm-4.6', provider: 'zhipu', params: {} });
+    expect(resolveModel('glm-4-plus')).toEqual({ model: 'glm-4-plus', provider: 'zhipu', params: {} });
+    expect(resolveModel('gpt-4o')).toBeUndefined();
+    expect(resolveModel('embedding-3', 'embedding')).toEqual({ model: 'embedding-3', provider: 'zhipu', params: {} });
+    expect(resolveModel('glm-4.6', 'embedding')).toBeUndefined();
+    expect(resolveModel('embedding-3:latest')).toBeUndefined();
+  });
+
+  it('prefers exact names over patterns and patterns in table order', () => {
+    config.MODEL_ROUTES = parseModelRoutes(
+      '{"gpt-4o*": "glm-4.6", "gpt-*": "glm-4.5", "gpt-4o-mini": {"model": "glm-4.5-air", "temperature": 0.2}, "glm-4.5": "glm-4.6"}'
+    );
+
+    expect(resolveModel('gpt-4o-mini')).toEqual({ model: 'glm-4.5-air', provider: 'zhipu', params: { temperature: 0.2 } });
+    expect(resolveModel('GPT-4o-2024-08-06')).toEqual({ model: 'glm-4.6', provider: 'zhipu', params: {} });
+    expect(resolveModel('gpt-3.5-turbo')).toEqual({ model: 'glm-4.5', provider: 'zhipu', params: {} });
+    // Routes also apply to upstream names, and match with or without the ":tag".
+    expect(resolveModel('glm-4.5:latest')).toEqual({ model: 'glm-4.6', provider: 'zhipu', params: {} });
+    expect(routeAliases().map((r) => r.pattern)).toEqual(['gpt-4o-mini', 'glm-4.5']);
+  });
+
+  it('sends provider models, and routes to them, to the provider serving them', () => {
+    setProviderModels('local', ['qwen2.5-coder:7b', 'deepseek-chat']);
+    config.MODEL_ROUTES = parseModelRoutes('{"coder": "qwen2.5-coder:7b", "chat": {"model": "deepseek-chat", "provider": "deepseek"}}');
+
+    expect(resolveModel('qwen2.5-coder:7b')).toEqual({ model: 'qwen2.5-coder:7b', provider: 'local', params: {} });
+    expect(resolveModel('deepseek-chat:latest')).toEqual({ model: 'deepseek-chat', provider: 'local', params: {} });
+    expect(resolveModel('coder')).toEqual({ model: 'qwen2.5-coder:7b', provider: 'local', params: {} });
+    expect(resolveModel('chat')).toEqual({ model: 'deepseek-chat', provider: 'deepseek', params: {} });
+  });
+
+  it('only fills in parameters the request did not set', () => {
+    expect(applyRouteDefaults({ model: 'glm-4.6', temperature: 0.9 }, { temperature: 0.2, top_p: 0.5 })).toEqual({
+      model: 'glm-4.6',
+      temperature: 0.9,
+      top_p: 0.5,
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { config, ModelRoute, ZHIPU_PROVIDER } from './config';
+import { normalizeModelName } from './zhipu';
+import { GatewayError } from './errors';
+import { findCatalogModel, ModelKind } from './catalog';
+
+export interface ResolvedModel {
+  // Upstream model name
+  model: string;
+  // Provider serving it (see getProvider)
+  provider: string;
+  // Default request parameters from the matching route
+  params: Record<string, any>;
+}
+
+// Zhipu model families that may be requested by name even when missing from the catalog.
+const ZHIPU_MODEL_PREFIXES: Record<ModelKind, string> = { chat: 'glm', embedding: 'embedding' };
+
+// Match a name against a pattern where "*" stands for any run of characters, ignoring case.
+export function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'i');
+}
+
+function routeMatches(route: ModelRoute, names: string[]): boolean {
+  if (!route.pattern.includes('*')) return names.includes(route.pattern);
+  const regExp = patternToRegExp(route.pattern);
+  return names.some((name) => regExp.test(name));
+}
+
+/**
+ * Resolve a requested model name through MODEL_ROUTES: exact names first (with or without
+ * their ":tag"), then patterns in table order. Without a route, models in the catalog go to
+ * the provider serving them, and Zhipu family names (glm-*, embedding-*) to Zhipu; anything
+ * else is unknown and yields undefined.
+ */
+export function resolveModel(requestedModel: string, kind: ModelKind = 'chat'): ResolvedModel | undefined {
+  const names = [...new Set([requestedModel, normalizeModelName(requestedModel)])];
+  const route =
+    config.MODEL_ROUTES.find((r) => !r.pattern.includes('*') && routeMatches(r, names)) ??
+    config.MODEL_ROUTES.find((r) => r.pattern.includes('*') && routeMatches(r, names));
+  if (route) {
+    const provider = route.provider ?? findCatalogModel(route.model)?.provider ?? ZHIPU_PROVIDER;
+    return { model: route.model, provider, params: route.params };
+  }
+
+  const listed = findCatalogModel(requestedModel, kind);
+  if (listed) return { model: listed.upstream, provider: listed.provider, params: {} };
+
+  const normalizedModel = normalizeModelName(requestedModel);
+  return normalizedModel.startsWith(ZHIPU_MODEL_PREFIXES[kind]) ? { model: normalizedModel, provider: ZHIPU_PROVIDER, params: {} } : undefined;
+}
+
+/** Fill in a route's default parameters that the request did not set itself. */
+export function applyRouteDefaults<T extends Record<string, any>>(upstreamReq: T, params: Record<string, any>): T {
+  for (const [key, value] of Object.entries(params)) {
+    if (upstreamReq[key] === undefined) (upstreamReq as Record<string, any>)[key] = value;
+  }
+  return upstreamReq;
+}
+
+// Names clients can pick that are not upstream models themselves (wildcard patterns excluded).
+export function routeAliases(): ModelRoute[] {
+  return config.MODEL_ROUTES.filter((r) => !r.pattern.includes('*'));
+}
+
+export function modelNotFoundError(requestedModel: string): GatewayError {
+  return {
+    status: 404,
+    message: `The model '${requestedModel}' does not exist`,
+    type: 'invalid_request_error',
+    code: 'model_not_found',
+    param: 'model',
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { FastifyRequest } from 'fastify';
+import { config, parseModelRules } from './config';
+import { applyModelRules, requestAttributes, RequestAttributes } from './rules';
+
+const attributes = (overrides: Partial<RequestAttributes> = {}): RequestAttributes => ({
+  promptTokens: 100,
+  tools: false,
+  images: false,
+  ...overrides,
+});
+
+describe('model rules', () => {
+  afterEach(() => {
+    config.MODEL_RULES = [];
+  });
+
+  it('reads intent, User-Agent, prompt size, tools and images from the request', () => {
+    const request = { headers: { 'openai-intent': 'conversation-panel', 'user-agent': 'GitHubCopilotChat/0.30' } } as unknown as FastifyRequest;
+    const messages = [
+      { role: 'user', content: 'x'.repeat(400) },
+      { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] },
+    ];
+
+    expect(requestAttributes(request, messages, [{ type: 'function' }])).toMatchObject({
+      intent: 'conversation-panel',
+      userAgent: 'GitHubCopilotChat/0.30',
+      tools: true,
+      images: true,
+    });
+    expect(requestAttributes(request, messages).promptTokens).toBeGreaterThan(100);
+    expect(requestAttributes({ headers: {} } as FastifyRequest, [{ role: 'user', content: 'hi', images: ['AAAA'] }], [])).toMatchObject({
+      intent: undefined,
+      tools: false,
+      images: true,
+    });
+  });
+
+  it('uses the model of the first rule whose conditions all hold', () => {
+    config.MODEL_RULES = parseModelRules(
+      JSON.stringify([
+        { intent: '*commit*', model: 'glm-4.5-air' },
+        { images: true, model: 'glm-4.5v' },
+        { min_prompt_tokens: 50_000, model: 'glm-4.6' },
+        { user_agent: 'curl/*', requested_model: 'gpt-*', tools: false, model: 'glm-4.5-flash' },
+      ])
+    );
+
+    expect(applyModelRules('glm-4.6', attributes({ intent: 'copilot-commit-message', images: true }))).toBe('glm-4.5-air');
+    expect(applyModelRules('glm-4.5', attributes({ images: true }))).toBe('glm-4.5v');
+    expect(applyModelRules('glm-4.5', attributes({ promptTokens: 80_000 }))).toBe('glm-4.6');
+    expect(applyModelRules('gpt-4o', attributes({ userAgent: 'curl/8.5.0' }))).toBe('glm-4.5-flash');
+    expect(applyModelRules('gpt-4o', attributes({ userAgent: 'curl/8.5.0', tools: true }))).toBe('gpt-4o');
+    expect(applyModelRules('glm-4.5', attributes())).toBe('glm-4.5');
+  });
+});
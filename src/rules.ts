@@ -0,0 +1,58 @@
+import type { FastifyRequest } from 'fastify';
+import { config, ModelRule } from './config';
+import { logger } from './logger';
+import { patternToRegExp } from './routing';
+import { requestIntent } from './priority';
+import { estimatePromptTokens } from './tokens';
+
+/** What MODEL_RULES can look at besides the requested model name. */
+export interface RequestAttributes {
+  intent?: string;
+  userAgent?: string;
+  promptTokens: number;
+  tools: boolean;
+  images: boolean;
+}
+
+// OpenAI `image_url` parts, Responses `input_image` items, or Ollama's `images` list.
+function hasImages(messages: unknown[]): boolean {
+  return messages.some((message: any) => {
+    if (Array.isArray(message?.images) && message.images.length) return true;
+    return Array.isArray(message?.content) && message.content.some((part: any) => typeof part?.type === 'string' && part.type.includes('image'));
+  });
+}
+
+export function requestAttributes(request: FastifyRequest, messages: unknown[], tools?: unknown): RequestAttributes {
+  const userAgent = request.headers['user-agent'];
+  return {
+    intent: requestIntent(request),
+    userAgent: typeof userAgent === 'string' ? userAgent : undefined,
+    promptTokens: estimatePromptTokens(messages),
+    tools: Array.isArray(tools) && tools.length > 0,
+    images: hasImages(messages),
+  };
+}
+
+const matchesPattern = (pattern: string | undefined, value: string | undefined) =>
+  pattern === undefined || (value !== undefined && patternToRegExp(pattern).test(value));
+
+function ruleMatches(rule: ModelRule, requestedModel: string, attributes: RequestAttributes): boolean {
+  return (
+    matchesPattern(rule.intent, attributes.intent) &&
+    matchesPattern(rule.user_agent, attributes.userAgent) &&
+    matchesPattern(rule.requested_model, requestedModel) &&
+    (rule.min_prompt_tokens === undefined || attributes.promptTokens >= rule.min_prompt_tokens) &&
+    (rule.max_prompt_tokens === undefined || attributes.promptTokens <= rule.max_prompt_tokens) &&
+    (rule.tools === undefined || rule.tools === attributes.tools) &&
+    (rule.images === undefined || rule.images === attributes.images)
+  );
+}
+
+/** The model to resolve for a request: that of the first matching MODEL_RULES entry, else the one requested. */
+export function applyModelRules(requestedModel: string, attributes: RequestAttributes): string {
+  const index = config.MODEL_RULES.findIndex((rule) => ruleMatches(rule, requestedModel, attributes));
+  if (index < 0) return requestedModel;
+  const model = config.MODEL_RULES[index].model;
+  logger.debug({ requested: requestedModel, model, rule: index, intent: attributes.intent, promptTokens: attributes.promptTokens }, 'Model rule matched');
+  return model;
+}
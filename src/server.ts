@@ -3,14 +3,16 @@ import killPort from 'kill-port';
 import Fastify from 'fastify';
 import { initializeConfig } from './config';
 import { logger } from './logger';
+import { discoverProviderModels } from './providers';
+import { keyUsage } from './keys';
+import { registerAuth } from './auth';
+import { registerCors } from './cors';
+import { registerLimits } from './limits';
 import { registerMetaRoutes } from './routes/meta';
 import { registerChatRoutes } from './routes/chat';
-
-export const CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-};
+import { registerResponsesRoutes } from './routes/responses';
+import { registerCompletionsRoutes } from './routes/completions';
+import { registerEmbeddingsRoutes } from './routes/embeddings';
 
 const PORT = 11434;
 
@@ -55,20 +57,36 @@ export async function buildServer(): Promise<ReturnType<typeof Fastify>> {
     throw error; // Re-throw the error instead of exiting the process
   }
 
+  // Ask the configured providers which models they serve, for the catalog and routing
+  await discoverProviderModels(app.log);
+
   // Keep raw body for downstream processing
   app.addContentTypeParser('*', { parseAs: 'buffer' }, (req, body, done) => {
     done(null, body);
   });
 
+  // CORS first, so that rejected requests still carry the headers browsers need to read them
+  registerCors(app);
+  // Check gateway tokens before any route runs
+  registerAuth(app);
+  // Queue model calls that are over the rate and concurrency limits
+  registerLimits(app);
+
   // Health check endpoint
   app.get('/', async () => ({
     status: 'ok',
     message: 'Zhipu Ollama Gateway is running',
   }));
 
+  // Per-key request counts and health of the upstream API keys (keys themselves are masked)
+  app.get('/keys', async () => ({ keys: keyUsage() }));
+
   // Register all application routes
   registerMetaRoutes(app);
   registerChatRoutes(app);
+  registerResponsesRoutes(app);
+  registerCompletionsRoutes(app);
+  registerEmbeddingsRoutes(app);
 
   app.log.info('🚀 Zhipu Ollama Gateway ready');
   app.log.info('🎯 Calling Zhipu GLM directly (no local Ollama required)');
@@ -0,0 +1,24 @@
+/**
+ * Incrementally split an upstream SSE byte stream into its `data:` payloads.
+ *
+ * Upstream chunks do not line up with event boundaries, so the trailing partial
+ * line is buffered until the next chunk arrives. `[DONE]` markers are skipped;
+ * callers detect completion from the stream's `end` event instead.
+ */
+export function createSseDataParser(onData: (data: string, line: string) => void) {
+  let buffer = '';
+  return (chunk: Buffer | string) => {
+    buffer += chunk.toString('utf-8');
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep the last partial line for the next chunk
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.substring(5).trim();
+      if (data === '[DONE]') continue;
+
+      onData(data, line);
+    }
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getStoredResponse, saveResponse, deleteStoredResponse, getStoredContext, saveContext } from './store';
+import type { ResponseObject } from './responses';
+
+vi.mock('./config', () => ({
+  config: { RESPONSES_STORE_LIMIT: 2, CONTEXT_STORE_LIMIT: 1 },
+}));
+
+const entry = (id: string) => ({ response: { id } as ResponseObject, messages: [{ role: 'user', content: id }] });
+
+describe('response store', () => {
+  it('saves, fetches and deletes responses', () => {
+    saveResponse(entry('resp_a'));
+    expect(getStoredResponse('resp_a')?.messages).toEqual([{ role: 'user', content: 'resp_a' }]);
+    expect(deleteStoredResponse('resp_a')).toBe(true);
+    expect(deleteStoredResponse('resp_a')).toBe(false);
+    expect(getStoredResponse('resp_a')).toBeUndefined();
+  });
+
+  it('evicts the least recently used response beyond the limit', () => {
+    saveResponse(entry('resp_1'));
+    saveResponse(entry('resp_2'));
+    getStoredResponse('resp_1');
+    saveResponse(entry('resp_3'));
+
+    expect(getStoredResponse('resp_1')).toBeDefined();
+    expect(getStoredResponse('resp_2')).toBeUndefined();
+    expect(getStoredResponse('resp_3')).toBeDefined();
+  });
+
+  it('keeps /api/generate conversations under their own limit', () => {
+    saveContext('1.2.3.4', [{ role: 'user', content: 'first' }]);
+    saveContext('5.6.7.8', [{ role: 'user', content: 'second' }]);
+
+    expect(getStoredContext('1.2.3.4')).toBeUndefined();
+    expect(getStoredContext('5.6.7.8')).toEqual([{ role: 'user', content: 'second' }]);
+    expect(getStoredResponse('resp_3')).toBeDefined();
+  });
+});
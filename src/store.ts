@@ -0,0 +1,59 @@
+import { config } from './config';
+import type { ResponseObject } from './responses';
+import type { ZhipuChatMessage } from './zhipu';
+
+export interface StoredResponse {
+  response: ResponseObject;
+  // The conversation up to and including this response's output, without `instructions`
+  // (like OpenAI, instructions are not carried over to follow-up responses).
+  messages: ZhipuChatMessage[];
+}
+
+// In-process stores. A Map keeps insertion order, so re-inserting on access turns
+// each into a simple LRU bounded by its limit.
+const responses = new Map<string, StoredResponse>();
+// /api/generate conversations by the handle clients get back as Ollama's `context`.
+const contexts = new Map<string, ContextMessage[]>();
+
+export interface ContextMessage {
+  role: string;
+  content: string;
+}
+
+function lookup<T>(store: Map<string, T>, id: string): T | undefined {
+  const entry = store.get(id);
+  if (entry) {
+    store.delete(id);
+    store.set(id, entry);
+  }
+  return entry;
+}
+
+function save<T>(store: Map<string, T>, id: string, entry: T, limit: number): void {
+  store.delete(id);
+  store.set(id, entry);
+  while (store.size > Math.max(1, limit)) {
+    const oldest = store.keys().next().value as string;
+    store.delete(oldest);
+  }
+}
+
+export function getStoredResponse(id: string): StoredResponse | undefined {
+  return lookup(responses, id);
+}
+
+export function saveResponse(entry: StoredResponse): void {
+  save(responses, entry.response.id, entry, config.RESPONSES_STORE_LIMIT);
+}
+
+export function deleteStoredResponse(id: string): boolean {
+  return responses.delete(id);
+}
+
+export function getStoredContext(handle: string): ContextMessage[] | undefined {
+  return lookup(contexts, handle);
+}
+
+export function saveContext(handle: string, messages: ContextMessage[]): void {
+  save(contexts, handle, messages, config.CONTEXT_STORE_LIMIT);
+}
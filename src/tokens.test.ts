@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, estimatePromptTokens, sumUsage, usageOrEstimate } from './tokens';
+
+describe('token estimates', () => {
+  it('estimates about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('abcdefghi')).toBe(3);
+  });
+
+  it('estimates prompt tokens across string and structured content', () => {
+    expect(estimatePromptTokens([{ role: 'user', content: 'abcd' }, { role: 'assistant', content: [{ type: 'text', text: 'hi' }] }]))
+      .toBe(1 + estimateTokens(JSON.stringify([{ type: 'text', text: 'hi' }])));
+  });
+
+  it('prefers upstream usage and fills in what is missing', () => {
+    const messages = [{ role: 'user', content: 'abcdefgh' }];
+    expect(usageOrEstimate({ prompt_tokens: 9, completion_tokens: 3, total_tokens: 12 }, messages, 'x')).toEqual({
+      prompt_tokens: 9,
+      completion_tokens: 3,
+      total_tokens: 12,
+    });
+    expect(usageOrEstimate(undefined, messages, 'abcd')).toEqual({ prompt_tokens: 2, completion_tokens: 1, total_tokens: 3 });
+  });
+
+  it('sums usage across calls, unless one of them reported none', () => {
+    const usage = { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 };
+    expect(sumUsage([usage, usage])).toEqual({ prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 });
+    expect(sumUsage([usage, undefined])).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+type Usage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+// Rough token estimate (~4 characters per token) for when upstream usage is not available.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Estimated prompt size of a chat request's messages. */
+export function estimatePromptTokens(messages: unknown[]): number {
+  return messages.reduce<number>((total, message) => {
+    const content = (message as { content?: unknown })?.content;
+    return total + estimateTokens(typeof content === 'string' ? content : JSON.stringify(content ?? ''));
+  }, 0);
+}
+
+/** Upstream usage when it was reported, otherwise a local estimate in the same shape. */
+export function usageOrEstimate(
+  usage: Partial<Usage> | undefined,
+  messages: unknown[],
+  completionText: string
+): Usage {
+  const prompt_tokens = usage?.prompt_tokens ?? estimatePromptTokens(messages);
+  const completion_tokens = usage?.completion_tokens ?? estimateTokens(completionText);
+  return { ...usage, prompt_tokens, completion_tokens, total_tokens: usage?.total_tokens ?? prompt_tokens + completion_tokens };
+}
+
+/** Add up the usage of several upstream calls; undefined if any of them reported none. */
+export function sumUsage(usages: Array<Partial<Usage> | undefined>): Usage | undefined {
+  if (usages.some((usage) => !usage)) return undefined;
+  return usages.reduce<Usage>(
+    (total, usage) => ({
+      prompt_tokens: total.prompt_tokens + (usage?.prompt_tokens ?? 0),
+      completion_tokens: total.completion_tokens + (usage?.completion_tokens ?? 0),
+      total_tokens: total.total_tokens + (usage?.total_tokens ?? 0),
+    }),
+    { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  );
+}
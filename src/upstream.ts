@@ -0,0 +1,205 @@
+import axios, { AxiosResponse } from 'axios';
+import { config } from './config';
+import { logger } from './logger';
+import { acquireKey, releaseKey, hasHealthyKey } from './keys';
+import { isQuotaExhausted, readErrorBody } from './errors';
+import type { ZhipuCallOptions, ZhipuChatNonStreamResp, ZhipuChatRequest, ZhipuEmbeddingRequest, ZhipuEmbeddingResp } from './zhipu';
+
+/** An OpenAI-compatible API: Zhipu, or any server configured under PROVIDERS. */
+export interface UpstreamEndpoint {
+  // Name used in log messages, e.g. "Zhipu"
+  label: string;
+  // Base URL that /chat/completions, /embeddings and /models are appended to
+  baseUrl: string;
+  apiKey: string;
+  // Keys to spread calls across instead of `apiKey` alone (see acquireKey)
+  apiKeys?: string[];
+}
+
+const CHAT_PATH = '/chat/completions';
+const EMBEDDINGS_PATH = '/embeddings';
+
+const MODELS_PATH = '/models';
+
+const headers = (apiKey: string) => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${apiKey}`,
+});
+
+const endpointKeys = (endpoint: UpstreamEndpoint) => (endpoint.apiKeys?.length ? endpoint.apiKeys : [endpoint.apiKey]);
+
+// A streamed response keeps its key busy until the stream is over.
+function releaseWhenDone(res: unknown, release: () => void): void {
+  const data = (res as AxiosResponse | undefined)?.data;
+  if (data && typeof data.once === 'function' && !data.destroyed) {
+    data.once('close', release);
+  } else {
+    release();
+  }
+}
+
+const signalOption = (options: ZhipuCallOptions) => (options.signal ? { signal: options.signal } : {});
+
+// Connection-level failures worth another attempt (no HTTP response was received).
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'ERR_NETWORK']);
+
+/** A 429 whose body has a Zhipu quota code (balance or daily limit): no amount of waiting will help. */
+export function isQuotaError(error: any): boolean {
+  return error?.response?.status === 429 && isQuotaExhausted(error.response.data);
+}
+
+export function isRetryable(error: any): boolean {
+  const status = error?.response?.status;
+  if (typeof status === 'number') return (status === 429 && !isQuotaError(error)) || status >= 500;
+  return RETRYABLE_ERROR_CODES.has(error?.code);
+}
+
+// A 429 only tells a rate limit from an exhausted quota by its body; streamed calls get that as a
+// stream, so read it and keep the parsed body in its place for translateUpstreamError.
+async function readRateLimitBody(error: any): Promise<void> {
+  if (error?.response?.status === 429) error.response.data = await readErrorBody(error.response.data);
+}
+
+/** Delay requested by a `Retry-After` header (seconds or HTTP date), if any. */
+function retryAfterMs(error: any): number | undefined {
+  const value = error?.response?.headers?.['retry-after'];
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `call` with one of the endpoint's keys until it succeeds, fails with a non-retryable
+ * error, or UPSTREAM_MAX_ATTEMPTS is reached. Other 429s, 5xx and dropped connections wait
+ * with jittered exponential backoff, or for as long as `Retry-After` asks (giving up if that
+ * exceeds UPSTREAM_RETRY_MAX_MS) - unless the failure benched the key and another key is
+ * healthy, which is tried straight away. Quota errors (Zhipu 1113, 1304) are not retried,
+ * nor are 429s that left no healthy key when the caller has a fallback model to go to.
+ */
+async function withRetries<T>(
+  endpoint: UpstreamEndpoint,
+  req: { model: string },
+  options: ZhipuCallOptions,
+  call: (apiKey: string) => Promise<T>
+): Promise<T> {
+  const maxAttempts = Math.max(1, config.UPSTREAM_MAX_ATTEMPTS || 1);
+  const keys = endpointKeys(endpoint);
+  for (let attempt = 1; ; attempt++) {
+    const apiKey = acquireKey(endpoint.label, keys);
+    try {
+      const res = await call(apiKey);
+      releaseWhenDone(res, () => releaseKey(endpoint.label, apiKey));
+      return res;
+    } catch (error: any) {
+      if (!options.signal?.aborted) await readRateLimitBody(error);
+      const requested = retryAfterMs(error);
+      const benched = releaseKey(endpoint.label, apiKey, options.signal?.aborted ? undefined : error, requested);
+      if (attempt >= maxAttempts || options.signal?.aborted || !isRetryable(error)) throw error;
+
+      const switchKey = benched && keys.length > 1 && hasHealthyKey(endpoint.label, keys);
+      if (options.hasFallback && error?.response?.status === 429 && !switchKey) throw error;
+      const backoff = Math.min(config.UPSTREAM_RETRY_MAX_MS, config.UPSTREAM_RETRY_BASE_MS * 2 ** (attempt - 1));
+      if (!switchKey && requested !== undefined && requested > config.UPSTREAM_RETRY_MAX_MS) throw error;
+      const delayMs = switchKey ? 0 : requested ?? Math.round(backoff / 2 + Math.random() * (backoff / 2));
+
+      // A failed stream still holds its (error) body open.
+      error?.response?.data?.destroy?.();
+      logger.warn(
+        { model: req.model, attempt, maxAttempts, status: error?.response?.status, code: error?.code, delayMs },
+        `Retrying ${endpoint.label} call`
+      );
+      await sleep(delayMs, options.signal);
+      options.onRetry?.(attempt);
+    }
+  }
+}
+
+export async function upstreamChatOnce(
+  endpoint: UpstreamEndpoint,
+  req: ZhipuChatRequest,
+  options: ZhipuCallOptions = {}
+): Promise<ZhipuChatNonStreamResp> {
+  const url = `${endpoint.baseUrl}${CHAT_PATH}`;
+  try {
+    logger.debug({ url, model: req.model, body: req }, `Calling ${endpoint.label} (non-stream)`);
+    const res = await withRetries(endpoint, req, options, (apiKey) =>
+      axios.post(url, { ...req, stream: false }, { headers: headers(apiKey), ...signalOption(options) })
+    );
+    // Log a truncated preview of the response body to aid debugging
+    try {
+      const preview = typeof res.data === 'string' ? res.data : JSON.stringify(res.data);
+      logger.debug({ status: res.status, preview: preview.slice(0, 2000) }, `${endpoint.label} response preview`);
+    } catch (err) {
+      logger.debug({ status: res.status }, `${endpoint.label} response (unserializable preview)`);
+    }
+    return res.data as ZhipuChatNonStreamResp;
+  } catch (error: any) {
+    if (options.signal?.aborted) {
+      logger.debug({ model: req.model }, `${endpoint.label} call cancelled`);
+      throw error;
+    }
+    // Provide more context in logs for debugging upstream failures
+    logger.error({ err: error?.toString?.() ?? String(error), response: error?.response?.data, model: req.model }, `${endpoint.label} API call failed`);
+    throw error;
+  }
+}
+
+export async function upstreamChatStream(
+  endpoint: UpstreamEndpoint,
+  req: ZhipuChatRequest,
+  options: ZhipuCallOptions = {}
+): Promise<AxiosResponse<any>> {
+  const url = `${endpoint.baseUrl}${CHAT_PATH}`;
+  logger.debug({ url, model: req.model }, `Calling ${endpoint.label} (stream)`);
+  // Retrying here is safe: nothing reaches the client until this resolves with a healthy stream.
+  const res = await withRetries(endpoint, req, options, (apiKey) =>
+    axios.post(url, { ...req, stream: true }, { headers: headers(apiKey), responseType: 'stream', ...signalOption(options) })
+  );
+  logger.debug({ status: res.status }, `${endpoint.label} stream response status`);
+  return res;
+}
+
+export async function upstreamEmbed(
+  endpoint: UpstreamEndpoint,
+  req: ZhipuEmbeddingRequest,
+  options: ZhipuCallOptions = {}
+): Promise<ZhipuEmbeddingResp> {
+  const url = `${endpoint.baseUrl}${EMBEDDINGS_PATH}`;
+  try {
+    logger.debug({ url, model: req.model, inputs: Array.isArray(req.input) ? req.input.length : 1 }, `Calling ${endpoint.label} (embeddings)`);
+    const res = await withRetries(endpoint, req, options, (apiKey) => axios.post(url, req, { headers: headers(apiKey), ...signalOption(options) }));
+    return res.data as ZhipuEmbeddingResp;
+  } catch (error: any) {
+    if (options.signal?.aborted) {
+      logger.debug({ model: req.model }, `${endpoint.label} call cancelled`);
+      throw error;
+    }
+    logger.error({ err: error?.toString?.() ?? String(error), response: error?.response?.data, model: req.model }, `${endpoint.label} embeddings call failed`);
+    throw error;
+  }
+}
+
+/** Model ids the upstream serves, from its OpenAI-style `GET /models`. */
+export async function upstreamListModels(endpoint: UpstreamEndpoint, options: ZhipuCallOptions = {}): Promise<string[]> {
+  const url = `${endpoint.baseUrl}${MODELS_PATH}`;
+  const res = await withRetries(endpoint, { model: '*' }, options, (apiKey) => axios.get(url, { headers: headers(apiKey), ...signalOption(options) }));
+  const models = Array.isArray(res.data?.data) ? res.data.data : [];
+  return models.map((model: any) => model?.id).filter((id: unknown): id is string => typeof id === 'string');
+}
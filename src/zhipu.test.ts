@@ -1,22 +1,28 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import axios from 'axios';
-import { normalizeModelName, zhipuChatOnce, zhipuChatStream, ZhipuChatRequest } from './zhipu';
+import { Readable } from 'stream';
+import { normalizeModelName, zhipuChatOnce, zhipuChatStream, zhipuEmbed, ZhipuChatRequest } from './zhipu';
 
 vi.mock('axios');
 vi.mock('./logger', () => ({
   logger: {
     debug: vi.fn(),
+    warn: vi.fn(),
     error: vi.fn(),
   },
 }));
 
 // Import the mocked logger for verification
 import { logger } from './logger';
+import { config } from './config';
 
 vi.mock('./config', () => ({
   config: {
     ZHIPUAI_API_KEY: 'test-api-key',
     ZHIPUAI_API_BASE_URL: 'https://api.zhipu.ai/v4',
+    UPSTREAM_MAX_ATTEMPTS: 3,
+    UPSTREAM_RETRY_BASE_MS: 1,
+    UPSTREAM_RETRY_MAX_MS: 50,
   },
 }));
 
@@ -222,6 +228,15 @@ describe('zhipu utilities', () => {
       );
     });
 
+    it('passes an abort signal to axios when given', async () => {
+      vi.mocked(axios.post).mockResolvedValueOnce({ data: 'stream data', status: 200 } as unknown);
+      const controller = new AbortController();
+      const req: ZhipuChatRequest = { model: 'glm-4', messages: [{ role: 'user', content: 'hi' }] };
+      await zhipuChatStream(req, { signal: controller.signal });
+
+      expect(vi.mocked(axios.post).mock.calls.at(-1)![2]).toMatchObject({ responseType: 'stream', signal: controller.signal });
+    });
+
     it('throws when axios.post rejects for streaming', async () => {
       const err = new Error('stream error');
       vi.mocked(axios.post).mockRejectedValueOnce(err);
@@ -259,4 +274,132 @@ describe('zhipu utilities', () => {
       );
     });
   });
+
+  describe('zhipuEmbed', () => {
+    it('posts batched input and dimensions to the embeddings endpoint', async () => {
+      const fakeData = { model: 'embedding-3', object: 'list', data: [], usage: { prompt_tokens: 4, total_tokens: 4 } };
+      vi.mocked(axios.post).mockResolvedValueOnce({ data: fakeData, status: 200 } as unknown);
+
+      const res = await zhipuEmbed({ model: 'embedding-3', input: ['a', 'b'], dimensions: 256 });
+
+      expect(res).toEqual(fakeData);
+      expect(vi.mocked(axios.post)).toHaveBeenCalledWith(
+        'https://api.zhipu.ai/v4/embeddings',
+        { model: 'embedding-3', input: ['a', 'b'], dimensions: 256 },
+        { headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer test-api-key' } }
+      );
+    });
+
+    it('logs and rethrows upstream failures', async () => {
+      vi.mocked(axios.post).mockRejectedValueOnce(new Error('embed error'));
+      await expect(zhipuEmbed({ model: 'embedding-2', input: 'a' })).rejects.toThrow('embed error');
+      expect(vi.mocked(logger.error)).toHaveBeenCalledWith(expect.objectContaining({ model: 'embedding-2' }), 'Zhipu embeddings call failed');
+    });
+  });
+
+  describe('retries', () => {
+    const req: ZhipuChatRequest = { model: 'glm-4', messages: [{ role: 'user', content: 'hi' }] };
+    const httpError = (status: number, headers: Record<string, string> = {}) =>
+      Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers, data: {} } });
+
+    it('retries 429, 5xx and connection resets with backoff and reports each retry', async () => {
+      vi.mocked(axios.post)
+        .mockRejectedValueOnce(httpError(429))
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockResolvedValueOnce({ data: { id: 'ok', created: 1, model: 'glm-4', choices: [] }, status: 200 } as unknown);
+      const onRetry = vi.fn();
+
+      const res = await zhipuChatOnce(req, { onRetry });
+
+      expect(res.id).toBe('ok');
+      expect(vi.mocked(axios.post)).toHaveBeenCalledTimes(3);
+      expect(onRetry.mock.calls).toEqual([[1], [2]]);
+      expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, status: 429 }), 'Retrying Zhipu call');
+    });
+
+    it('gives up after UPSTREAM_MAX_ATTEMPTS and does not retry client errors', async () => {
+      vi.mocked(axios.post).mockRejectedValue(httpError(503));
+      await expect(zhipuChatStream(req)).rejects.toThrow('503');
+      expect(vi.mocked(axios.post)).toHaveBeenCalledTimes(3);
+
+      vi.mocked(axios.post).mockReset();
+      vi.mocked(axios.post).mockRejectedValue(httpError(400));
+      await expect(zhipuChatOnce(req)).rejects.toThrow('400');
+      expect(vi.mocked(axios.post)).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry an exhausted quota, but retries Zhipu rate limits', async () => {
+      const zhipuError = (code: string) =>
+        Object.assign(httpError(429), { response: { status: 429, headers: {}, data: { error: { code, message: 'limited' } } } });
+
+      vi.mocked(axios.post).mockRejectedValue(zhipuError('1113'));
+      await expect(zhipuChatOnce(req)).rejects.toThrow('429');
+      expect(vi.mocked(axios.post)).toHaveBeenCalledTimes(1);
+
+      // Streamed calls get the body as a stream; it is read to find the code.
+      vi.mocked(axios.post).mockReset();
+      vi.mocked(axios.post).mockRejectedValue(
+        Object.assign(httpError(429), { response: { status: 429, headers: {}, data: Readable.from([JSON.stringify({ error: { code: '1304' } })]) } })
+      );
+      await expect(zhipuChatStream(req)).rejects.toThrow('429');
+      expect(vi.mocked(axios.post)).toHaveBeenCalledTimes(1);
+
+      vi.mocked(axios.post).mockReset();
+      vi.mocked(axios.post)
+        .mockRejectedValueOnce(zhipuError('1302'))
+        .mockRejectedValueOnce(zhipuError('1305'))
+        .mockResolvedValueOnce({ data: { id: 'ok', created: 1, model: 'glm-4', choices: [] }, status: 200 } as unknown);
+      expect((await zhipuChatOnce(req)).id).toBe('ok');
+      expect(vi.mocked(axios.post)).toHaveBeenCalledTimes(3);
+    });
+
+    it('waits for Retry-After, but not longer than UPSTREAM_RETRY_MAX_MS', async () => {
+      vi.mocked(axios.post)
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '0.02' }))
+        .mockResolvedValueOnce({ data: 'stream', status: 200 } as unknown);
+      await zhipuChatStream(req);
+      expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 20 }), 'Retrying Zhipu call');
+
+      vi.mocked(axios.post).mockReset();
+      vi.mocked(axios.post).mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+      await expect(zhipuChatOnce(req)).rejects.toThrow('429');
+      expect(vi.mocked(axios.post)).toHaveBeenCalledTimes(1);
+    });
+
+    it('moves to another API key straight away when one is rate limited', async () => {
+      const mockedConfig = config as typeof config & { ZHIPUAI_API_KEYS?: string[] };
+      mockedConfig.ZHIPUAI_API_KEYS = ['key-one-0001', 'key-two-0002'];
+      try {
+        vi.mocked(axios.post)
+          .mockRejectedValueOnce(httpError(429, { 'retry-after': '120' }))
+          .mockResolvedValueOnce({ data: { id: 'ok', created: 1, model: 'glm-4', choices: [] }, status: 200 } as unknown);
+
+        await zhipuChatOnce(req);
+
+        const keysUsed = vi.mocked(axios.post).mock.calls.map((call) => (call[2] as any).headers.Authorization);
+        expect(keysUsed).toEqual(['Bearer key-one-0001', 'Bearer key-two-0002']);
+        expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 0 }), 'Retrying Zhipu call');
+      } finally {
+        delete mockedConfig.ZHIPUAI_API_KEYS;
+      }
+    });
+
+    it('still backs off between keys when the failure did not bench the key', async () => {
+      const mockedConfig = config as typeof config & { ZHIPUAI_API_KEYS?: string[] };
+      mockedConfig.ZHIPUAI_API_KEYS = ['key-one-0001', 'key-two-0002'];
+      try {
+        vi.mocked(axios.post)
+          .mockRejectedValueOnce(httpError(503))
+          .mockResolvedValueOnce({ data: { id: 'ok', created: 1, model: 'glm-4', choices: [] }, status: 200 } as unknown);
+
+        await zhipuChatOnce(req);
+
+        const retry = vi.mocked(logger.warn).mock.calls.find((call) => call[1] === 'Retrying Zhipu call');
+        expect(retry?.[0]).toMatchObject({ status: 503 });
+        expect((retry?.[0] as any).delayMs).toBeGreaterThan(0);
+      } finally {
+        delete mockedConfig.ZHIPUAI_API_KEYS;
+      }
+    });
+  });
 });
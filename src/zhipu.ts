@@ -1,6 +1,6 @@
-import axios, { AxiosResponse } from 'axios';
+import type { AxiosResponse } from 'axios';
 import { config } from './config';
-import { logger } from './logger';
+import { upstreamChatOnce, upstreamChatStream, upstreamEmbed, UpstreamEndpoint } from './upstream';
 
 // ---- Minimal Zhipu request/response shapes (local to this file) ----
 export type ChatMessageContentPart = {
@@ -81,41 +81,53 @@ export interface ZhipuChatNonStreamResp {
   [key: string]: any;
 }
 
-const CHAT_PATH = '/chat/completions';
+export interface ZhipuEmbeddingRequest {
+  model: string;
+  input: string | string[];
+  // Only embedding-3 accepts this (256, 512, 1024 or 2048).
+  dimensions?: number;
+}
+
+export interface ZhipuEmbeddingResp {
+  model: string;
+  object: 'list';
+  data: Array<{ index: number; object: 'embedding'; embedding: number[] }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens?: number;
+    total_tokens: number;
+  };
+  [key: string]: any;
+}
 
-const headers = () => ({
-  'Content-Type': 'application/json',
-  'Authorization': `Bearer ${config.ZHIPUAI_API_KEY}`,
+export interface ZhipuCallOptions {
+  // Aborts the upstream HTTP request, e.g. when the client has disconnected.
+  signal?: AbortSignal;
+  // Called before each retry with the number of retries so far (1 for the first retry).
+  onRetry?: (retries: number) => void;
+  // Another model is there to fall back to (see withFallbacks): a 429 with no other key to switch to
+  // fails straight away instead of being waited out.
+  hasFallback?: boolean;
+}
+
+// Zhipu's API is OpenAI-compatible, so calls go through the shared upstream client.
+const zhipuEndpoint = (): UpstreamEndpoint => ({
+  label: 'Zhipu',
+  baseUrl: config.ZHIPUAI_API_BASE_URL,
+  apiKey: config.ZHIPUAI_API_KEY,
+  apiKeys: config.ZHIPUAI_API_KEYS,
 });
 
-export async function zhipuChatOnce(req: ZhipuChatRequest): Promise<ZhipuChatNonStreamResp> {
-  const url = `${config.ZHIPUAI_API_BASE_URL}${CHAT_PATH}`;
-  try {
-    logger.debug({ url, model: req.model, body: req }, 'Calling Zhipu (non-stream)');
-    const res = await axios.post(url, { ...req, stream: false }, { headers: headers() });
-    // Log a truncated preview of the response body to aid debugging
-    try {
-      const preview = typeof res.data === 'string' ? res.data : JSON.stringify(res.data);
-      logger.debug({ status: res.status, preview: preview.slice(0, 2000) }, 'Zhipu response preview');
-    } catch (err) {
-      logger.debug({ status: res.status }, 'Zhipu response (unserializable preview)');
-    }
-    return res.data as ZhipuChatNonStreamResp;
-  } catch (error: any) {
-    // Provide more context in logs for debugging upstream failures
-    logger.error({ err: error?.toString?.() ?? String(error), response: error?.response?.data, model: req.model }, 'Zhipu API call failed');
-    throw error;
-  }
+export function zhipuChatOnce(req: ZhipuChatRequest, options: ZhipuCallOptions = {}): Promise<ZhipuChatNonStreamResp> {
+  return upstreamChatOnce(zhipuEndpoint(), req, options);
+}
+
+export function zhipuChatStream(req: ZhipuChatRequest, options: ZhipuCallOptions = {}): Promise<AxiosResponse<any>> {
+  return upstreamChatStream(zhipuEndpoint(), req, options);
 }
 
-export async function zhipuChatStream(
-  req: ZhipuChatRequest
-): Promise<AxiosResponse<any>> {
-  const url = `${config.ZHIPUAI_API_BASE_URL}${CHAT_PATH}`;
-  logger.debug({ url, model: req.model }, 'Calling Zhipu (stream)');
-  const res = await axios.post(url, { ...req, stream: true }, { headers: headers(), responseType: 'stream' });
-  logger.debug({ status: res.status }, 'Zhipu stream response status');
-  return res;
+export function zhipuEmbed(req: ZhipuEmbeddingRequest, options: ZhipuCallOptions = {}): Promise<ZhipuEmbeddingResp> {
+  return upstreamEmbed(zhipuEndpoint(), req, options);
 }
 
 /** Normalize "glm-4.6:latest" -> "glm-4.6" for Zhipu model names */